@@ -1,8 +1,8 @@
 import config from './config/config.ts';
 import morgan from './config/morgan.ts';
-import { jwtStrategy } from './config/passport.ts';
+import { apiKeyStrategy, jwtStrategy } from './config/passport.ts';
 import { errorConverter, errorHandler } from './middlewares/error.ts';
-import { authLimiter } from './middlewares/rateLimiter.ts';
+import requestContext from './middlewares/requestContext.ts';
 import xss from './middlewares/xss.ts';
 import routes from './routes/v1/index.ts';
 import ApiError from './utils/ApiError.ts';
@@ -39,14 +39,10 @@ app.use(compression());
 app.use(cors());
 // app.options('*', cors());
 
-// jwt authentication
+// jwt and API key authentication
 app.use(passport.initialize());
 passport.use('jwt', jwtStrategy);
-
-// limit repeated failed requests to auth endpoints
-if (config.env === 'production') {
-    app.use('/auth', authLimiter);
-}
+passport.use('apiKey', apiKeyStrategy);
 
 app.get('/', (req, res) => {
     res.send('Hello World');
@@ -60,6 +56,9 @@ app.get('/health', (req, res) => {
     res.send('OK');
 });
 
+// client and user details recorded with audit events
+app.use(requestContext);
+
 // v1 api routes
 app.use('/', routes);
 
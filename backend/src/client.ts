@@ -1,4 +1,6 @@
 import { Prisma, PrismaClient } from './generated/prisma/index.js';
+import { emitChange } from './utils/changes.ts';
+import { getTenant } from './utils/tenant.ts';
 
 // add prisma to the NodeJS global type
 // interface CustomNodeJsGlobal extends Global {
@@ -101,6 +103,94 @@ const getGlobalFiltersExtension = () => {
     });
 };
 
-const prisma = new PrismaClient().$extends(getGlobalFiltersExtension());
+// Filters of the tenant scoped models, a user belongs to the organizations it is a member of
+const tenantFilters: { [model: string]: ((organizationId: string) => object) | undefined } = {
+    User: organizationId => ({ Membership: { some: { organizationId, isDeleted: false } } })
+};
+
+const getTenantFiltersExtension = () => {
+    return Prisma.defineExtension({
+        name: 'tenantFilters',
+        query: {
+            $allModels: {
+                async $allOperations({ model, operation, args, query }) {
+                    const tenant = getTenant();
+                    const tenantFilter = tenant && tenantFilters[model]?.(tenant.organizationId);
+                    if (!tenantFilter) {
+                        return await query(args);
+                    }
+
+                    switch (operation) {
+                        case PrismaOperation.findUnique:
+                        case PrismaOperation.findUniqueOrThrow:
+                        case PrismaOperation.findMany:
+                        case PrismaOperation.findFirst:
+                        case PrismaOperation.findFirstOrThrow:
+                        case PrismaOperation.count:
+                        case PrismaOperation.groupBy:
+                        case PrismaOperation.aggregate:
+                        case PrismaOperation.update:
+                        case PrismaOperation.updateMany:
+                        case PrismaOperation.updateManyAndReturn:
+                        case PrismaOperation.delete:
+                        case PrismaOperation.deleteMany: {
+                            const where = (args.where ?? {}) as { [key in string]?: any };
+                            const and = Array.isArray(where.AND) ? where.AND : where.AND ? [where.AND] : [];
+                            args.where = { ...where, AND: [...and, tenantFilter] } as typeof args.where;
+                            break;
+                        }
+                        default:
+                            break;
+                    }
+
+                    return await query(args);
+                }
+            }
+        }
+    });
+};
+
+// Models whose row changes are published, e.g. to the MCP resource subscriptions
+const publishedModels = ['User'];
+
+const getChangeEventsExtension = () => {
+    return Prisma.defineExtension({
+        name: 'changeEvents',
+        query: {
+            $allModels: {
+                async $allOperations({ model, operation, args, query }) {
+                    const result = await query(args);
+                    if (!publishedModels.includes(model)) {
+                        return result;
+                    }
+
+                    switch (operation) {
+                        case PrismaOperation.update:
+                        case PrismaOperation.upsert:
+                        case PrismaOperation.delete:
+                        case PrismaOperation.updateMany:
+                        case PrismaOperation.deleteMany: {
+                            // Bulk changes are only published when they target a single row by id
+                            const id = (args.where as { [key in string]?: any } | undefined)?.id;
+                            if (typeof id === 'string') {
+                                emitChange(model, id);
+                            }
+                            break;
+                        }
+                        default:
+                            break;
+                    }
+
+                    return result;
+                }
+            }
+        }
+    });
+};
+
+const prisma = new PrismaClient()
+    .$extends(getGlobalFiltersExtension())
+    .$extends(getTenantFiltersExtension())
+    .$extends(getChangeEventsExtension());
 
 export default prisma;
@@ -1,6 +1,11 @@
+import { RateLimitStoreType } from '../rateLimit/types.ts';
+import { RevocationStoreType } from '../revocation/types.ts';
+import { EmailTransport } from '../types/email.ts';
 import dotenv from 'dotenv';
+import fs from 'fs';
 import Joi from 'joi';
 import path from 'path';
+import { fileURLToPath } from 'url';
 
 dotenv.config({ path: path.join(process.cwd(), '.env') });
 
@@ -16,7 +21,104 @@ const envVarsSchema = Joi.object()
             .description('minutes after which reset password token expires'),
         JWT_VERIFY_EMAIL_EXPIRATION_MINUTES: Joi.number()
             .default(10)
-            .description('minutes after which verify email token expires')
+            .description('minutes after which verify email token expires'),
+        JWT_MFA_EXPIRATION_MINUTES: Joi.number()
+            .default(5)
+            .description('minutes after which the login two-factor challenge token expires'),
+        JWT_IMPERSONATION_EXPIRATION_MINUTES: Joi.number()
+            .default(15)
+            .description('minutes after which impersonation access tokens expire'),
+        MAGIC_LINK_EXPIRATION_MINUTES: Joi.number()
+            .default(10)
+            .description('minutes after which magic link tokens and codes expire'),
+        MAGIC_LINK_SIGNUP: Joi.boolean()
+            .default(false)
+            .description('create an account on the first magic link login of an unknown email'),
+        INVITATION_EXPIRATION_DAYS: Joi.number()
+            .default(7)
+            .description('days after which organization invitations expire'),
+        ACCOUNT_ERASURE_GRACE_DAYS: Joi.number()
+            .default(30)
+            .description('days after the deletion of an account before its personal data is erased'),
+        GOOGLE_CLIENT_ID: Joi.string().empty('').description('Google OAuth client id, enables Google login'),
+        GOOGLE_CLIENT_SECRET: Joi.string()
+            .empty('')
+            .description('Google OAuth client secret, not needed for native app clients'),
+        GOOGLE_ISSUER: Joi.string().default('https://accounts.google.com').description('Google OpenID issuer'),
+        APPLE_CLIENT_ID: Joi.string().empty('').description('Apple services id or bundle id, enables Apple login'),
+        APPLE_TEAM_ID: Joi.string().empty('').description('Apple developer team id'),
+        APPLE_KEY_ID: Joi.string().empty('').description('id of the Apple sign in private key'),
+        APPLE_PRIVATE_KEY: Joi.string().empty('').description('Apple sign in private key (PEM)'),
+        APPLE_ISSUER: Joi.string().default('https://appleid.apple.com').description('Apple OpenID issuer'),
+        GITHUB_CLIENT_ID: Joi.string().empty('').description('GitHub OAuth app client id, enables GitHub login'),
+        GITHUB_CLIENT_SECRET: Joi.string().empty('').description('GitHub OAuth app client secret'),
+        OIDC_ISSUER: Joi.string().empty('').description('issuer of a generic OpenID Connect provider'),
+        OIDC_CLIENT_ID: Joi.string().empty('').description('client id at the generic OpenID Connect provider'),
+        OIDC_CLIENT_SECRET: Joi.string().empty('').description('client secret at the generic OpenID Connect provider'),
+        TOTP_ISSUER: Joi.string().default('App').description('issuer name shown in authenticator apps'),
+        JWT_REVOCATION_STORE: Joi.string()
+            .valid(...Object.values(RevocationStoreType))
+            .default(RevocationStoreType.Memory)
+            .description('where revoked access tokens are tracked'),
+        RATE_LIMIT_STORE: Joi.string()
+            .valid(...Object.values(RateLimitStoreType))
+            .default(RateLimitStoreType.Memory)
+            .description('where rate limiter hit counters are kept'),
+        LOGIN_DELAY_AFTER_ATTEMPTS: Joi.number()
+            .default(3)
+            .description('consecutive failed logins of an account after which each retry is delayed'),
+        LOGIN_MAX_ATTEMPTS: Joi.number()
+            .default(10)
+            .description('consecutive failed logins of an account after which it is locked'),
+        LOGIN_LOCKOUT_MINUTES: Joi.number().default(15).description('minutes for which a locked account is locked'),
+        PASSWORD_MIN_LENGTH: Joi.number().default(8).description('minimum password length'),
+        PASSWORD_MAX_LENGTH: Joi.number().default(72).description('maximum password length, bcrypt ignores the rest'),
+        PASSWORD_REQUIRE_LETTER: Joi.boolean().default(true).description('passwords must contain a letter'),
+        PASSWORD_REQUIRE_NUMBER: Joi.boolean().default(true).description('passwords must contain a number'),
+        PASSWORD_REQUIRE_LOWERCASE: Joi.boolean()
+            .default(false)
+            .description('passwords must contain a lowercase letter'),
+        PASSWORD_REQUIRE_UPPERCASE: Joi.boolean()
+            .default(false)
+            .description('passwords must contain an uppercase letter'),
+        PASSWORD_REQUIRE_SYMBOL: Joi.boolean().default(false).description('passwords must contain a symbol'),
+        PASSWORD_DENYLIST_FILE: Joi.string()
+            .allow('')
+            .default('src/data/common-passwords.txt')
+            .description('file of rejected common passwords relative to the project root, empty to disable'),
+        PASSWORD_HISTORY_SIZE: Joi.number()
+            .default(5)
+            .description('number of previous passwords that cannot be reused, 0 to disable'),
+        PASSWORD_HASH_ROUNDS: Joi.number()
+            .default(10)
+            .description('bcrypt cost, stored hashes are upgraded on the next login when it changes'),
+        PERMISSION_CACHE_TTL_SECONDS: Joi.number()
+            .default(60)
+            .description('seconds the rights of a role are cached before being read again from the database'),
+        API_KEY_EXPIRATION_DAYS: Joi.number()
+            .default(90)
+            .description('days after which API keys expire when no expiry is given'),
+        OAUTH_CODE_EXPIRATION_MINUTES: Joi.number()
+            .default(5)
+            .description('minutes after which the authorization codes of MCP OAuth clients expire'),
+        APP_URL: Joi.string().default('http://localhost:3000').description('base url used for links sent to users'),
+        API_URL: Joi.string()
+            .default('http://localhost:3000')
+            .description('public base url of the API, the issuer of the MCP OAuth authorization server'),
+        EMAIL_TRANSPORT: Joi.string()
+            .valid(...Object.values(EmailTransport))
+            .default(EmailTransport.CONSOLE)
+            // The console transport logs the links of the emails, account takeover tokens included
+            .when('NODE_ENV', { is: 'production', then: Joi.required().invalid(EmailTransport.CONSOLE) })
+            .description('how outgoing emails are delivered, required in production where console is not allowed'),
+        EMAIL_FROM: Joi.string()
+            .default('noreply@example.com')
+            .description('the from field in the emails sent by the app'),
+        SMTP_HOST: Joi.string().description('server that will send the emails'),
+        SMTP_PORT: Joi.number().description('port to connect to the email server'),
+        SMTP_USERNAME: Joi.string().description('username for email server'),
+        SMTP_PASSWORD: Joi.string().description('password for email server'),
+        EMAIL_OUTBOX_DIR: Joi.string().default('outbox').description('directory the outbox transport writes emails to')
     })
     .unknown();
 
@@ -26,6 +128,35 @@ if (error) {
     throw new Error(`Config validation error: ${error.message}`);
 }
 
+/**
+ * Load the list of rejected common passwords, a missing file stops the app at startup
+ * Relative paths are resolved against the project root, the same from src and dist whatever the working directory
+ * @param {string} [file]
+ * @returns {Set<string>} lowercased passwords
+ */
+const loadPasswordDenylist = (file?: string): Set<string> => {
+    const denylist = new Set<string>();
+    if (!file) {
+        return denylist;
+    }
+    const projectRoot = fileURLToPath(new URL('../..', import.meta.url));
+    let content: string;
+    try {
+        content = fs.readFileSync(path.resolve(projectRoot, file), 'utf8');
+    } catch (readError) {
+        throw new Error(
+            `Config validation error: "PASSWORD_DENYLIST_FILE" cannot be read: ${(readError as Error).message}`
+        );
+    }
+    for (const line of content.split(/\r?\n/)) {
+        const entry = line.trim();
+        if (entry && !entry.startsWith('#')) {
+            denylist.add(entry.toLowerCase());
+        }
+    }
+    return denylist;
+};
+
 export default {
     env: envVars.NODE_ENV,
     port: envVars.PORT,
@@ -34,6 +165,91 @@ export default {
         accessExpirationMinutes: envVars.JWT_ACCESS_EXPIRATION_MINUTES,
         refreshExpirationDays: envVars.JWT_REFRESH_EXPIRATION_DAYS,
         resetPasswordExpirationMinutes: envVars.JWT_RESET_PASSWORD_EXPIRATION_MINUTES,
-        verifyEmailExpirationMinutes: envVars.JWT_VERIFY_EMAIL_EXPIRATION_MINUTES
+        verifyEmailExpirationMinutes: envVars.JWT_VERIFY_EMAIL_EXPIRATION_MINUTES,
+        mfaExpirationMinutes: envVars.JWT_MFA_EXPIRATION_MINUTES,
+        impersonationExpirationMinutes: envVars.JWT_IMPERSONATION_EXPIRATION_MINUTES,
+        revocationStore: envVars.JWT_REVOCATION_STORE as RevocationStoreType
+    },
+    password: {
+        minLength: envVars.PASSWORD_MIN_LENGTH,
+        maxLength: envVars.PASSWORD_MAX_LENGTH,
+        requireLetter: envVars.PASSWORD_REQUIRE_LETTER,
+        requireNumber: envVars.PASSWORD_REQUIRE_NUMBER,
+        requireLowercase: envVars.PASSWORD_REQUIRE_LOWERCASE,
+        requireUppercase: envVars.PASSWORD_REQUIRE_UPPERCASE,
+        requireSymbol: envVars.PASSWORD_REQUIRE_SYMBOL,
+        denylist: loadPasswordDenylist(envVars.PASSWORD_DENYLIST_FILE),
+        historySize: envVars.PASSWORD_HISTORY_SIZE,
+        hashRounds: envVars.PASSWORD_HASH_ROUNDS
+    },
+    permissions: {
+        cacheTtlSeconds: envVars.PERMISSION_CACHE_TTL_SECONDS
+    },
+    apiKey: {
+        expirationDays: envVars.API_KEY_EXPIRATION_DAYS
+    },
+    rateLimit: {
+        store: envVars.RATE_LIMIT_STORE as RateLimitStoreType
+    },
+    lockout: {
+        delayAfterAttempts: envVars.LOGIN_DELAY_AFTER_ATTEMPTS,
+        maxAttempts: envVars.LOGIN_MAX_ATTEMPTS,
+        durationMinutes: envVars.LOGIN_LOCKOUT_MINUTES
+    },
+    magicLink: {
+        expirationMinutes: envVars.MAGIC_LINK_EXPIRATION_MINUTES,
+        signup: envVars.MAGIC_LINK_SIGNUP
+    },
+    invitation: {
+        expirationDays: envVars.INVITATION_EXPIRATION_DAYS
+    },
+    erasure: {
+        graceDays: envVars.ACCOUNT_ERASURE_GRACE_DAYS
+    },
+    oauth: {
+        google: {
+            issuer: envVars.GOOGLE_ISSUER,
+            clientId: envVars.GOOGLE_CLIENT_ID,
+            clientSecret: envVars.GOOGLE_CLIENT_SECRET
+        },
+        apple: {
+            issuer: envVars.APPLE_ISSUER,
+            clientId: envVars.APPLE_CLIENT_ID,
+            teamId: envVars.APPLE_TEAM_ID,
+            keyId: envVars.APPLE_KEY_ID,
+            privateKey: envVars.APPLE_PRIVATE_KEY
+        },
+        github: {
+            clientId: envVars.GITHUB_CLIENT_ID,
+            clientSecret: envVars.GITHUB_CLIENT_SECRET
+        },
+        oidc: {
+            issuer: envVars.OIDC_ISSUER,
+            clientId: envVars.OIDC_CLIENT_ID,
+            clientSecret: envVars.OIDC_CLIENT_SECRET
+        }
+    },
+    totp: {
+        issuer: envVars.TOTP_ISSUER
+    },
+    oauthServer: {
+        issuer: envVars.API_URL,
+        // Access tokens issued to OAuth clients are only accepted by the MCP endpoint
+        resource: `${envVars.API_URL}/mcp`,
+        codeExpirationMinutes: envVars.OAUTH_CODE_EXPIRATION_MINUTES
+    },
+    appUrl: envVars.APP_URL,
+    email: {
+        transport: envVars.EMAIL_TRANSPORT as EmailTransport,
+        from: envVars.EMAIL_FROM,
+        smtp: {
+            host: envVars.SMTP_HOST,
+            port: envVars.SMTP_PORT,
+            auth: {
+                user: envVars.SMTP_USERNAME,
+                pass: envVars.SMTP_PASSWORD
+            }
+        },
+        outboxDir: envVars.EMAIL_OUTBOX_DIR
     }
 };
@@ -1,6 +1,10 @@
 import prisma from '../client.ts';
 import { TokenType } from '../generated/prisma/index.js';
+import { getInstance as getRevocationStore } from '../revocation/index.ts';
+import apiKeyService, { API_KEY_PREFIX } from '../services/apiKey.service.ts';
 import config from './config.ts';
+import { Request } from 'express';
+import passport, { StrategyCreated } from 'passport';
 import { ExtractJwt, Strategy as JwtStrategy, VerifyCallback } from 'passport-jwt';
 
 const jwtOptions = {
@@ -13,22 +17,75 @@ const jwtVerify: VerifyCallback = async (payload, done) => {
         if (payload.type !== TokenType.ACCESS) {
             throw new Error('Invalid token type');
         }
+        if (await getRevocationStore().isRevoked({ jti: payload.jti, userId: payload.sub, issuedAt: payload.iat })) {
+            return done(null, false);
+        }
         const user = await prisma.user.findFirst({
             select: {
                 id: true,
                 email: true,
                 name: true,
-                role: true
+                role: true,
+                isEmailVerified: true
             },
             where: { id: payload.sub, isDeleted: false }
         });
         if (!user) {
             return done(null, false);
         }
-        done(null, user);
+        // Impersonation tokens end with the session of the impersonating user
+        if (payload.act) {
+            const actor = await prisma.user.findFirst({
+                select: { id: true },
+                where: { id: payload.act.sub, isDeleted: false }
+            });
+            const revocationCheck = { jti: payload.jti, userId: payload.act.sub, issuedAt: payload.iat };
+            if (!actor || (await getRevocationStore().isRevoked(revocationCheck))) {
+                return done(null, false);
+            }
+        }
+        done(null, {
+            ...user,
+            tokenOrganizationId: payload.org,
+            tokenAudience: payload.aud,
+            actor: payload.act && { id: payload.act.sub }
+        });
     } catch (error) {
         done(error, false);
     }
 };
 
 export const jwtStrategy = new JwtStrategy(jwtOptions, jwtVerify);
+
+/**
+ * Get the API key of a request, from the X-API-Key header or an Authorization header holding a key,
+ * with or without the Bearer scheme
+ * @param {Request} req
+ * @returns {string | null}
+ */
+export const extractApiKey = (req: Request): string | null => {
+    const key = req.get('X-API-Key') ?? req.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    return key?.startsWith(API_KEY_PREFIX) ? key : null;
+};
+
+class ApiKeyStrategy extends passport.Strategy {
+    name = 'apiKey';
+
+    authenticate(this: StrategyCreated<this>, req: Request) {
+        const key = extractApiKey(req);
+        if (!key) {
+            return this.fail(401);
+        }
+        apiKeyService
+            .verifyApiKey(key)
+            .then(result => {
+                if (!result) {
+                    return this.fail(401);
+                }
+                this.success({ ...result.user, apiKey: { id: result.apiKey.id, scopes: result.apiKey.scopes } });
+            })
+            .catch(error => this.error(error));
+    }
+}
+
+export const apiKeyStrategy = new ApiKeyStrategy();
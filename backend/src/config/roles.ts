@@ -1,9 +1,11 @@
-import { Role } from '../generated/prisma/index.js';
+// Roles created by the roles migration, the rights of every role are kept in the database
+export enum RoleName {
+    USER = 'USER',
+    ADMIN = 'ADMIN'
+}
 
-const allRoles = {
-    [Role.USER]: [],
-    [Role.ADMIN]: ['getUsers', 'manageUsers']
-};
+export const builtInRoles: string[] = Object.values(RoleName);
 
-export const roles = Object.keys(allRoles);
-export const roleRights = new Map(Object.entries(allRoles));
+// Scope letting an API key act as its user where no permission is checked: on the user's own account and
+// organizations, not a permission of any role so any key can be granted it
+export const SELF_SCOPE = 'self';
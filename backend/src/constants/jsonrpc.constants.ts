@@ -35,3 +35,9 @@ export const JSONRPC_INTERNAL_ERROR = -32603;
  */
 export const JSONRPC_SERVER_ERROR_MIN = -32099;
 export const JSONRPC_SERVER_ERROR_MAX = -32000;
+
+/**
+ * MCP error of a resource read for an unknown URI.
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/server/resources#error-handling
+ */
+export const JSONRPC_RESOURCE_NOT_FOUND = -32002;
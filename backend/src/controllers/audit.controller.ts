@@ -0,0 +1,14 @@
+import { auditService } from '../services/index.ts';
+import catchAsync from '../utils/catchAsync.ts';
+import pick from '../utils/pick.ts';
+
+const getAuditEvents = catchAsync(async (req, res) => {
+    const filter = pick(req.validatedQuery, ['type', 'actorId', 'targetId', 'from', 'to']);
+    const options = pick(req.validatedQuery, ['limit', 'page']);
+    const result = await auditService.queryEvents(filter, options);
+    res.send(result);
+});
+
+export default {
+    getAuditEvents
+};
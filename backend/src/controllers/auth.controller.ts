@@ -1,49 +1,269 @@
-import { authService, tokenService, userService } from '../services/index.ts';
+import logger from '../config/logger.ts';
+import {
+    auditService,
+    authService,
+    emailService,
+    mfaService,
+    oauthService,
+    sessionService,
+    tokenService,
+    userService
+} from '../services/index.ts';
+import { AuditEventType } from '../types/audit.ts';
+import ApiError from '../utils/ApiError.ts';
 import catchAsync from '../utils/catchAsync.ts';
 import catchAsyncWithAuth from '../utils/catchAsyncWithAuth.ts';
 import exclude from '../utils/exclude.ts';
+import { getSessionMetadata } from '../utils/session.ts';
+import { AuthenticatedRequest } from '../utils/types.ts';
+import { Request } from 'express';
 import httpStatus from 'http-status';
+import { ExtractJwt } from 'passport-jwt';
+
+/**
+ * Record a failed login and rethrow its error, the email is kept to spot attacks on unknown accounts
+ * @param {Request} req
+ * @param {string} method - password, mfa, magicLink or oauth:<provider>
+ */
+const recordLoginFailure = (req: Request, method: string) => async (error: unknown) => {
+    await auditService.recordEvent(AuditEventType.LOGIN_FAILURE, {
+        actorId: null,
+        metadata: { method, email: req.body.email, reason: error instanceof Error ? error.message : undefined }
+    });
+    throw error;
+};
+
+/**
+ * Record a successful login, when the tokens are issued
+ * @param {string} userId
+ * @param {string} method - password, mfa, magicLink or oauth:<provider>
+ * @returns {Promise<void>}
+ */
+const recordLoginSuccess = async (userId: string, method: string): Promise<void> => {
+    await auditService.recordEvent(AuditEventType.LOGIN_SUCCESS, {
+        actorId: userId,
+        targetId: userId,
+        metadata: { method }
+    });
+};
+
+/**
+ * Get the access token of a request, requests authenticated with an API key have none
+ * @param {AuthenticatedRequest} req
+ * @returns {string | null}
+ */
+const getAccessToken = (req: AuthenticatedRequest): string | null =>
+    req.apiKey ? null : ExtractJwt.fromAuthHeaderAsBearerToken()(req);
 
 const register = catchAsync(async (req, res) => {
     const { email, password } = req.body;
     const user = await userService.createUser(email, password);
     const userWithoutPassword = exclude(user, ['password', 'createdAt', 'updatedAt']);
-    const tokens = await tokenService.generateAuthTokens(user);
+    const tokens = await tokenService.generateAuthTokens(user, getSessionMetadata(req));
+    const verifyEmailToken = await tokenService.generateVerifyEmailToken(user);
+    // The account exists either way, another email can be requested with /auth/send-verification-email
+    try {
+        await emailService.sendVerificationEmail(user.email, verifyEmailToken);
+    } catch (error) {
+        logger.error(
+            `Verification email of user ${user.id} not sent: ${error instanceof Error ? error.message : error}`
+        );
+    }
     res.status(httpStatus.CREATED).send({ user: userWithoutPassword, tokens });
 });
 
 const login = catchAsync(async (req, res) => {
     const { email, password } = req.body;
-    const user = await authService.loginUserWithEmailAndPassword(email, password);
-    const tokens = await tokenService.generateAuthTokens(user);
+    const user = await authService
+        .loginUserWithEmailAndPassword(email, password)
+        .catch(recordLoginFailure(req, 'password'));
+    if (user.isTwoFactorEnabled) {
+        const mfaToken = await tokenService.generateMfaToken(user);
+        res.send({ mfaRequired: true, mfaToken });
+        return;
+    }
+    const tokens = await tokenService.generateAuthTokens(user, getSessionMetadata(req));
+    await recordLoginSuccess(user.id, 'password');
+    res.send({ user, tokens });
+});
+
+const sendMagicLink = catchAsync(async (req, res) => {
+    await authService.sendMagicLink(req.body.email, req.body.type);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const verifyMagicLink = catchAsync(async (req, res) => {
+    const user = await authService.loginWithMagicLink(req.body).catch(recordLoginFailure(req, 'magicLink'));
+    if (user.isTwoFactorEnabled) {
+        const mfaToken = await tokenService.generateMfaToken(user);
+        res.send({ mfaRequired: true, mfaToken });
+        return;
+    }
+    const tokens = await tokenService.generateAuthTokens(user, getSessionMetadata(req));
+    await recordLoginSuccess(user.id, 'magicLink');
+    res.send({ user, tokens });
+});
+
+const getOAuthAuthorizationUrl = catchAsync(async (req, res) => {
+    const { redirectUri, codeChallenge, state } = req.validatedQuery;
+    const url = await oauthService.getAuthorizationUrl(req.params.provider, { redirectUri, codeChallenge, state });
+    res.send({ url });
+});
+
+const loginOAuth = catchAsync(async (req, res) => {
+    const { code, codeVerifier, redirectUri } = req.body;
+    const method = `oauth:${req.params.provider}`;
+    const user = await authService
+        .loginWithOAuth(req.params.provider, { code, codeVerifier, redirectUri })
+        .catch(recordLoginFailure(req, method));
+    if (user.isTwoFactorEnabled) {
+        const mfaToken = await tokenService.generateMfaToken(user);
+        res.send({ mfaRequired: true, mfaToken });
+        return;
+    }
+    const tokens = await tokenService.generateAuthTokens(user, getSessionMetadata(req));
+    await recordLoginSuccess(user.id, method);
+    res.send({ user, tokens });
+});
+
+const loginMfa = catchAsync(async (req, res) => {
+    const { mfaToken, code } = req.body;
+    const user = await authService.loginWithMfa(mfaToken, code).catch(recordLoginFailure(req, 'mfa'));
+    const tokens = await tokenService.generateAuthTokens(user, getSessionMetadata(req));
+    await recordLoginSuccess(user.id, 'mfa');
     res.send({ user, tokens });
 });
 
 const logout = catchAsyncWithAuth(async (req, res) => {
     await authService.logout(req.body.refreshToken);
+    const accessToken = getAccessToken(req);
+    if (accessToken) {
+        await tokenService.revokeAccessToken(accessToken);
+    }
+    await auditService.recordEvent(AuditEventType.LOGOUT, { targetId: req.user.id });
     res.status(httpStatus.NO_CONTENT).send();
 });
 
 const refreshTokens = catchAsyncWithAuth(async (req, res) => {
-    const tokens = await authService.refreshAuth(req.body.refreshToken);
+    const tokens = await authService.refreshAuth(req.body.refreshToken, {
+        ...getSessionMetadata(req),
+        organizationId: req.body.organizationId
+    });
     res.send({ ...tokens });
 });
 
+const impersonateUser = catchAsyncWithAuth(async (req, res) => {
+    if (req.actor) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Already impersonating a user');
+    }
+    const result = await authService.impersonateUser(req.user.id, req.params.userId);
+    await auditService.recordEvent(AuditEventType.IMPERSONATION_START, {
+        actorId: req.user.id,
+        targetId: result.user.id,
+        metadata: { expires: result.tokens.access.expires }
+    });
+    res.send(result);
+});
+
+const stopImpersonation = catchAsyncWithAuth(async (req, res) => {
+    if (!req.actor) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Not impersonating a user');
+    }
+    const accessToken = getAccessToken(req);
+    if (accessToken) {
+        await tokenService.revokeAccessToken(accessToken);
+    }
+    await auditService.recordEvent(AuditEventType.IMPERSONATION_END, {
+        actorId: req.actor.id,
+        targetId: req.user.id
+    });
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const forgotPassword = catchAsync(async (req, res) => {
+    // Unknown emails get the same response, the route must not tell which emails have an account
+    const resetPasswordToken = await tokenService.generateResetPasswordToken(req.body.email);
+    if (resetPasswordToken) {
+        await emailService.sendResetPasswordEmail(req.body.email, resetPasswordToken);
+    }
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
 const resetPassword = catchAsync(async (req, res) => {
     await authService.resetPassword(req.query.token as string, req.body.password);
     res.status(httpStatus.NO_CONTENT).send();
 });
 
+const sendVerificationEmail = catchAsyncWithAuth(async (req, res) => {
+    if (req.user.isEmailVerified) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Email already verified');
+    }
+    const verifyEmailToken = await tokenService.generateVerifyEmailToken(req.user);
+    await emailService.sendVerificationEmail(req.user.email, verifyEmailToken);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
 const verifyEmail = catchAsync(async (req, res) => {
     await authService.verifyEmail(req.query.token as string);
     res.status(httpStatus.NO_CONTENT).send();
 });
 
+const verifyEmailChange = catchAsync(async (req, res) => {
+    await authService.confirmEmailChange(req.query.token as string);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getSessions = catchAsyncWithAuth(async (req, res) => {
+    const sessions = await sessionService.querySessions(req.user.id);
+    res.send(sessions);
+});
+
+const revokeSession = catchAsyncWithAuth(async (req, res) => {
+    await sessionService.revokeSession(req.user.id, req.params.sessionId);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const revokeOtherSessions = catchAsyncWithAuth(async (req, res) => {
+    await sessionService.revokeSessions(req.user.id, req.body.refreshToken);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const setupTwoFactor = catchAsyncWithAuth(async (req, res) => {
+    const result = await mfaService.setupTwoFactor(req.user.id);
+    res.send(result);
+});
+
+const enableTwoFactor = catchAsyncWithAuth(async (req, res) => {
+    const result = await mfaService.enableTwoFactor(req.user.id, req.body.code);
+    res.send(result);
+});
+
+const disableTwoFactor = catchAsyncWithAuth(async (req, res) => {
+    await mfaService.disableTwoFactor(req.user.id, req.body.code);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
 export default {
     register,
     login,
+    loginMfa,
+    sendMagicLink,
+    verifyMagicLink,
+    getOAuthAuthorizationUrl,
+    loginOAuth,
     logout,
     refreshTokens,
+    impersonateUser,
+    stopImpersonation,
+    forgotPassword,
     resetPassword,
-    verifyEmail
+    sendVerificationEmail,
+    verifyEmail,
+    verifyEmailChange,
+    getSessions,
+    revokeSession,
+    revokeOtherSessions,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor
 };
@@ -1,2 +1,6 @@
 export { default as authController } from './auth.controller.ts';
 export { default as userController } from './user.controller.ts';
+export { default as roleController } from './role.controller.ts';
+export { default as organizationController } from './organization.controller.ts';
+export { default as auditController } from './audit.controller.ts';
+export { default as oauthServerController } from './oauthServer.controller.ts';
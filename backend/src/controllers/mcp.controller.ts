@@ -1,34 +1,97 @@
+import logger from '../config/logger.ts';
 import { JSONRPC_INTERNAL_ERROR, JSONRPC_INVALID_REQUEST } from '../constants/jsonrpc.constants.ts';
-import { registerMCPTools } from '../services/mcp.service.ts';
+import { getRequestSubject } from '../policies/index.ts';
+import { userPrompts } from '../prompts/user.prompt.ts';
+import { fileResources } from '../resources/file.resource.ts';
+import { userResources } from '../resources/user.resource.ts';
+import { registerMCPPrompts, registerMCPResources, registerMCPTools } from '../services/mcp.service.ts';
 import { userTools } from '../tools/user.tool.ts';
+import { MCPToolContext } from '../types/mcp.ts';
 import catchAsync from '../utils/catchAsync.ts';
+import { AuthenticatedRequest } from '../utils/types.ts';
 import { Server } from '@modelcontextprotocol/sdk/server';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { Request, Response } from 'express';
 import { v4 as uuid } from 'uuid';
 
-// Map to store transports by session ID
-const transports: { [sessionId: string]: StreamableHTTPServerTransport | undefined } = {};
+// An MCP session belongs to the user who initialized it
+interface MCPSession {
+    transport: StreamableHTTPServerTransport;
+    context: MCPToolContext;
+}
+
+// Map to store sessions by session ID
+const sessions: { [sessionId: string]: MCPSession | undefined } = {};
+
+/**
+ * Get the caller context of an authenticated MCP request
+ * @param {AuthenticatedRequest} req
+ * @returns {MCPToolContext}
+ */
+const getToolContext = (req: AuthenticatedRequest): MCPToolContext => ({
+    user: {
+        id: req.user.id,
+        email: req.user.email,
+        name: req.user.name,
+        role: req.user.role,
+        isEmailVerified: req.user.isEmailVerified
+    },
+    subject: getRequestSubject(req),
+    apiKey: req.apiKey,
+    actor: req.actor
+});
+
+/**
+ * Get the session of a request, only its user can use it
+ * The context of the session is refreshed with the request, the role or API key scopes may have changed
+ * @param {Request} req
+ * @param {Response} res
+ * @returns {MCPSession | undefined} undefined when an error response was sent
+ */
+const getSession = (req: Request, res: Response): MCPSession | undefined => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const session = sessionId ? sessions[sessionId] : undefined;
+    const authenticatedReq = req as AuthenticatedRequest;
+    if (!session || session.context.user.id !== authenticatedReq.user.id) {
+        res.status(400).json({
+            jsonrpc: '2.0',
+            error: {
+                code: JSONRPC_INVALID_REQUEST,
+                message: 'Invalid Request: Invalid or missing session ID'
+            },
+            id: req.body?.id || null
+        });
+        return undefined;
+    }
+    Object.assign(session.context, getToolContext(authenticatedReq), { sessionId });
+    return session;
+};
 
 export const mcpPostController = catchAsync(async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     let transport: StreamableHTTPServerTransport;
 
-    if (sessionId && transports[sessionId]) {
-        transport = transports[sessionId]!;
-    } else if (!sessionId && isInitializeRequest(req.body)) {
+    if (sessionId) {
+        const session = getSession(req, res);
+        if (!session) {
+            return;
+        }
+        transport = session.transport;
+    } else if (isInitializeRequest(req.body)) {
+        const context = getToolContext(req as AuthenticatedRequest);
         transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => uuid(),
             onsessioninitialized: newSessionId => {
-                console.log('New MCP session initialized:', newSessionId);
-                transports[newSessionId] = transport;
+                logger.info(`New MCP session ${newSessionId} initialized for user ${context.user.id}`);
+                context.sessionId = newSessionId;
+                sessions[newSessionId] = { transport, context };
             }
         });
 
         transport.onclose = () => {
             if (transport.sessionId) {
-                delete transports[transport.sessionId];
+                delete sessions[transport.sessionId];
             }
         };
 
@@ -41,12 +104,16 @@ export const mcpPostController = catchAsync(async (req: Request, res: Response)
             {
                 capabilities: {
                     logging: {},
-                    tools: {}
+                    tools: {},
+                    resources: { subscribe: true },
+                    prompts: {}
                 }
             }
         );
 
-        registerMCPTools({ server, tools: [...userTools] });
+        registerMCPTools({ server, tools: [...userTools], context });
+        registerMCPResources({ server, resourceTemplates: [...userResources, ...fileResources], context });
+        registerMCPPrompts({ server, prompts: [...userPrompts], context });
         await server.connect(transport);
     } else {
         res.status(400).json({
@@ -64,23 +131,13 @@ export const mcpPostController = catchAsync(async (req: Request, res: Response)
 });
 
 export const mcpGetController = catchAsync(async (req: Request, res: Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-
-    if (!sessionId || !transports[sessionId]) {
-        res.status(400).json({
-            jsonrpc: '2.0',
-            error: {
-                code: JSONRPC_INVALID_REQUEST,
-                message: 'Invalid Request: Invalid or missing session ID'
-            },
-            id: null
-        });
+    const session = getSession(req, res);
+    if (!session) {
         return;
     }
 
     try {
-        const transport = transports[sessionId];
-        await transport.handleRequest(req, res);
+        await session.transport.handleRequest(req, res);
     } catch (error) {
         res.status(500).json({
             jsonrpc: '2.0',
@@ -95,29 +152,20 @@ export const mcpGetController = catchAsync(async (req: Request, res: Response) =
 });
 
 export const mcpDeleteController = catchAsync(async (req: Request, res: Response) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-
-    if (!sessionId || !transports[sessionId]) {
-        res.status(400).json({
-            jsonrpc: '2.0',
-            error: {
-                code: JSONRPC_INVALID_REQUEST,
-                message: 'Invalid Request: Invalid or missing session ID'
-            },
-            id: null
-        });
+    const session = getSession(req, res);
+    if (!session) {
         return;
     }
 
     try {
-        const transport = transports[sessionId];
+        const { transport } = session;
 
         // Handle the delete request through transport first
         await transport.handleRequest(req, res);
 
         // Clean up the session after successful deletion
         if (transport.sessionId) {
-            delete transports[transport.sessionId];
+            delete sessions[transport.sessionId];
         }
     } catch (error) {
         res.status(500).json({
@@ -0,0 +1,105 @@
+import { oauthServerService } from '../services/index.ts';
+import { OAuthAuthorizationRequest, OAuthClientCredentials, OAuthGrantType } from '../types/oauthServer.ts';
+import ApiError from '../utils/ApiError.ts';
+import catchAsync from '../utils/catchAsync.ts';
+import catchAsyncWithAuth from '../utils/catchAsyncWithAuth.ts';
+import { getSessionMetadata } from '../utils/session.ts';
+import { Request, Response } from 'express';
+import httpStatus from 'http-status';
+
+/**
+ * Get the client credentials of a token request, from the Basic Authorization header or the body
+ * @param {Request} req
+ * @returns {OAuthClientCredentials}
+ */
+const getClientCredentials = (req: Request): OAuthClientCredentials => {
+    const [scheme, credentials] = req.get('Authorization')?.split(' ') ?? [];
+    if (scheme?.toLowerCase() === 'basic' && credentials) {
+        // The id and the secret are form-urlencoded before being joined (RFC 6749 2.3.1)
+        const decoded = Buffer.from(credentials, 'base64').toString();
+        const separator = decoded.indexOf(':');
+        return {
+            clientId: decodeURIComponent(decoded.slice(0, separator)),
+            clientSecret: decodeURIComponent(decoded.slice(separator + 1))
+        };
+    }
+    return { clientId: req.body.client_id, clientSecret: req.body.client_secret };
+};
+
+/**
+ * Get the authorization request of snake case OAuth parameters
+ * @param {Record<string, string>} params
+ * @returns {OAuthAuthorizationRequest}
+ */
+const getAuthorizationRequest = (params: Record<string, string>): OAuthAuthorizationRequest => ({
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge ?? '',
+    codeChallengeMethod: params.code_challenge_method ?? '',
+    state: params.state,
+    scope: params.scope,
+    resource: params.resource
+});
+
+const getProtectedResourceMetadata = (req: Request, res: Response) => {
+    res.send(oauthServerService.getProtectedResourceMetadata());
+};
+
+const getAuthorizationServerMetadata = (req: Request, res: Response) => {
+    res.send(oauthServerService.getAuthorizationServerMetadata());
+};
+
+const registerClient = catchAsync(async (req, res) => {
+    const client = await oauthServerService.registerClient({
+        redirectUris: req.body.redirect_uris,
+        clientName: req.body.client_name,
+        tokenEndpointAuthMethod: req.body.token_endpoint_auth_method
+    });
+    res.status(httpStatus.CREATED).send(client);
+});
+
+const authorizeRedirect = catchAsync(async (req, res) => {
+    const { validatedQuery } = req;
+    const url = await oauthServerService.getAuthorizationPageUrl(
+        getAuthorizationRequest(validatedQuery),
+        validatedQuery.response_type
+    );
+    res.redirect(url);
+});
+
+const authorize = catchAsyncWithAuth(async (req, res) => {
+    // A scoped API key must not grant a client the full rights of its user
+    if (req.apiKey) {
+        throw new ApiError(httpStatus.FORBIDDEN, 'Clients can only be authorized by a logged in user');
+    }
+    const redirectUrl = await oauthServerService.authorize(req.user.id, getAuthorizationRequest(req.body));
+    res.send({ redirectUrl });
+});
+
+const token = catchAsync(async (req, res) => {
+    const credentials = getClientCredentials(req);
+    const session = getSessionMetadata(req);
+    const tokens =
+        req.body.grant_type === OAuthGrantType.AUTHORIZATION_CODE
+            ? await oauthServerService.exchangeAuthorizationCode(
+                  credentials,
+                  {
+                      code: req.body.code,
+                      redirectUri: req.body.redirect_uri,
+                      codeVerifier: req.body.code_verifier,
+                      resource: req.body.resource
+                  },
+                  session
+              )
+            : await oauthServerService.refreshClientTokens(credentials, req.body.refresh_token, session);
+    res.set('Cache-Control', 'no-store').send(tokens);
+});
+
+export default {
+    getProtectedResourceMetadata,
+    getAuthorizationServerMetadata,
+    registerClient,
+    authorizeRedirect,
+    authorize,
+    token
+};
@@ -0,0 +1,94 @@
+import { getRequestSubject } from '../policies/index.ts';
+import { organizationService } from '../services/index.ts';
+import ApiError from '../utils/ApiError.ts';
+import catchAsyncWithAuth from '../utils/catchAsyncWithAuth.ts';
+import httpStatus from 'http-status';
+
+const createOrganization = catchAsyncWithAuth(async (req, res) => {
+    const organization = await organizationService.createOrganization(req.body.name, req.user.id);
+    res.status(httpStatus.CREATED).send(organization);
+});
+
+const getOrganizations = catchAsyncWithAuth(async (req, res) => {
+    const organizations = await organizationService.queryOrganizations(req.user.id);
+    res.send(organizations);
+});
+
+const getOrganization = catchAsyncWithAuth(async (req, res) => {
+    const organization = await organizationService.getOrganizationById(req.params.organizationId);
+    if (!organization) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Organization not found');
+    }
+    res.send(organization);
+});
+
+const updateOrganization = catchAsyncWithAuth(async (req, res) => {
+    const organization = await organizationService.updateOrganizationById(req.params.organizationId, req.body);
+    res.send(organization);
+});
+
+const deleteOrganization = catchAsyncWithAuth(async (req, res) => {
+    await organizationService.deleteOrganizationById(req.params.organizationId);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getMembers = catchAsyncWithAuth(async (req, res) => {
+    const members = await organizationService.queryMembers(req.params.organizationId);
+    res.send(members);
+});
+
+const updateMember = catchAsyncWithAuth(async (req, res) => {
+    const member = await organizationService.updateMemberRole(
+        req.params.organizationId,
+        req.params.userId,
+        req.body.role,
+        getRequestSubject(req)
+    );
+    res.send(member);
+});
+
+const removeMember = catchAsyncWithAuth(async (req, res) => {
+    await organizationService.removeMember(req.params.organizationId, req.params.userId, getRequestSubject(req));
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const createInvitation = catchAsyncWithAuth(async (req, res) => {
+    const { email, role } = req.body;
+    const invitation = await organizationService.createInvitation(
+        req.params.organizationId,
+        email,
+        role,
+        getRequestSubject(req)
+    );
+    res.status(httpStatus.CREATED).send(invitation);
+});
+
+const getInvitations = catchAsyncWithAuth(async (req, res) => {
+    const invitations = await organizationService.queryInvitations(req.params.organizationId);
+    res.send(invitations);
+});
+
+const revokeInvitation = catchAsyncWithAuth(async (req, res) => {
+    await organizationService.revokeInvitation(req.params.organizationId, req.params.invitationId);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const acceptInvitation = catchAsyncWithAuth(async (req, res) => {
+    const organization = await organizationService.acceptInvitation(req.body.token, req.user);
+    res.send(organization);
+});
+
+export default {
+    createOrganization,
+    getOrganizations,
+    getOrganization,
+    updateOrganization,
+    deleteOrganization,
+    getMembers,
+    updateMember,
+    removeMember,
+    createInvitation,
+    getInvitations,
+    revokeInvitation,
+    acceptInvitation
+};
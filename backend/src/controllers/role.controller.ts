@@ -0,0 +1,68 @@
+import { roleService, userService } from '../services/index.ts';
+import ApiError from '../utils/ApiError.ts';
+import catchAsync from '../utils/catchAsync.ts';
+import httpStatus from 'http-status';
+
+const createRole = catchAsync(async (req, res) => {
+    const { name, description, permissions } = req.body;
+    const role = await roleService.createRole(name, description, permissions);
+    res.status(httpStatus.CREATED).send(role);
+});
+
+const getRoles = catchAsync(async (req, res) => {
+    const roles = await roleService.queryRoles();
+    res.send(roles);
+});
+
+const getRole = catchAsync(async (req, res) => {
+    const role = await roleService.getRoleByName(req.params.roleName);
+    if (!role) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Role not found');
+    }
+    res.send(role);
+});
+
+const updateRole = catchAsync(async (req, res) => {
+    const role = await roleService.updateRoleByName(req.params.roleName, req.body);
+    res.send(role);
+});
+
+const deleteRole = catchAsync(async (req, res) => {
+    await roleService.deleteRoleByName(req.params.roleName);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const attachPermission = catchAsync(async (req, res) => {
+    const role = await roleService.attachPermission(req.params.roleName, req.params.permission);
+    res.send(role);
+});
+
+const detachPermission = catchAsync(async (req, res) => {
+    const role = await roleService.detachPermission(req.params.roleName, req.params.permission);
+    res.send(role);
+});
+
+const assignRole = catchAsync(async (req, res) => {
+    if (!(await roleService.getRoleByName(req.params.roleName))) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Role not found');
+    }
+    const user = await userService.updateUserById(req.body.userId, { role: req.params.roleName });
+    res.send(user);
+});
+
+const getPermissions = catchAsync(async (req, res) => {
+    const permissions = await roleService.queryPermissions();
+    res.send(permissions);
+});
+
+export default {
+    createRole,
+    getRoles,
+    getRole,
+    updateRole,
+    deleteRole,
+    attachPermission,
+    detachPermission,
+    assignRole,
+    getPermissions
+};
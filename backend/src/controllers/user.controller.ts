@@ -1,25 +1,71 @@
-import { userService } from '../services/index.ts';
+import { User } from '../generated/prisma/index.js';
+import {
+    apiKeyService,
+    authService,
+    lockoutService,
+    privacyService,
+    sessionService,
+    userService
+} from '../services/index.ts';
 import ApiError from '../utils/ApiError.ts';
 import catchAsync from '../utils/catchAsync.ts';
 import catchAsyncWithAuth from '../utils/catchAsyncWithAuth.ts';
 import pick from '../utils/pick.ts';
 import httpStatus from 'http-status';
 
+// Fields of the users returned to the callers managing them, credentials are never returned
+const userKeys: (keyof User)[] = [
+    'id',
+    'email',
+    'name',
+    'role',
+    'isEmailVerified',
+    'isServiceAccount',
+    'createdAt',
+    'updatedAt'
+];
+
+// Fields of the profile of the current user
+const profileKeys: (keyof User)[] = [
+    'id',
+    'email',
+    'name',
+    'role',
+    'isEmailVerified',
+    'isTwoFactorEnabled',
+    'isServiceAccount',
+    'createdAt',
+    'updatedAt'
+];
+
 const createUser = catchAsync(async (req, res) => {
     const { email, password, name, role } = req.body;
     const user = await userService.createUser(email, password, name, role);
-    res.status(httpStatus.CREATED).send(user);
+    res.status(httpStatus.CREATED).send(pick(user, userKeys));
+});
+
+const createServiceAccount = catchAsync(async (req, res) => {
+    const user = await userService.createServiceAccount(req.body.name, req.body.role);
+    res.status(httpStatus.CREATED).send(pick(user, userKeys));
 });
 
 const getUsers = catchAsyncWithAuth(async (req, res) => {
-    const filter = pick(req.validatedQuery, ['name', 'role']);
-    const options = pick(req.validatedQuery, ['sortBy', 'limit', 'page']);
-    const result = await userService.queryUsers(filter, options);
+    const filter = pick(req.validatedQuery, [
+        'search',
+        'name',
+        'email',
+        'role',
+        'isEmailVerified',
+        'createdFrom',
+        'createdTo'
+    ]);
+    const options = pick(req.validatedQuery, ['sortBy', 'limit', 'page', 'cursor']);
+    const result = await userService.queryUsers(filter, options, userKeys);
     res.send(result);
 });
 
 const getUser = catchAsync(async (req, res) => {
-    const user = await userService.getUserById(req.params.userId);
+    const user = await userService.getUserById(req.params.userId, userKeys);
     if (!user) {
         throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
     }
@@ -28,6 +74,10 @@ const getUser = catchAsync(async (req, res) => {
 
 const updateUser = catchAsync(async (req, res) => {
     const user = await userService.updateUserById(req.params.userId, req.body);
+    if (req.body.password) {
+        // A password set by an admin ends every session, like a password reset
+        await sessionService.revokeSessions(req.params.userId);
+    }
     res.send(user);
 });
 
@@ -36,10 +86,112 @@ const deleteUser = catchAsync(async (req, res) => {
     res.status(httpStatus.NO_CONTENT).send();
 });
 
+const getMe = catchAsyncWithAuth(async (req, res) => {
+    const user = await userService.getUserById(req.user.id, profileKeys);
+    if (!user) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    res.send(user);
+});
+
+const updateMe = catchAsyncWithAuth(async (req, res) => {
+    const user = await userService.updateUserById(req.user.id, req.body, profileKeys);
+    res.send(user);
+});
+
+const deleteMe = catchAsyncWithAuth(async (req, res) => {
+    await authService.assertPasswordMatch(req.user.id, req.body.password);
+    await userService.deleteUserById(req.user.id);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const changePassword = catchAsyncWithAuth(async (req, res) => {
+    const { currentPassword, newPassword, refreshToken } = req.body;
+    await authService.changePassword(req.user.id, currentPassword, newPassword, refreshToken);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const changeEmail = catchAsyncWithAuth(async (req, res) => {
+    await authService.requestEmailChange(req.user.id, req.body.email, req.body.password);
+    res.status(httpStatus.ACCEPTED).send();
+});
+
+const createDataExport = catchAsyncWithAuth(async (req, res) => {
+    const dataExport = await privacyService.createDataExport(req.user.id);
+    res.status(httpStatus.CREATED).send(dataExport);
+});
+
+const getDataExport = catchAsyncWithAuth(async (req, res) => {
+    const dataExport = await privacyService.getDataExport(req.user.id, req.params.exportId);
+    res.send(dataExport);
+});
+
+const restoreUser = catchAsync(async (req, res) => {
+    const user = await userService.restoreUserById(req.params.userId);
+    res.send(user);
+});
+
+const getUserSessions = catchAsync(async (req, res) => {
+    const sessions = await sessionService.querySessions(req.params.userId);
+    res.send(sessions);
+});
+
+const revokeUserSession = catchAsync(async (req, res) => {
+    await sessionService.revokeSession(req.params.userId, req.params.sessionId);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const revokeUserSessions = catchAsync(async (req, res) => {
+    await sessionService.revokeSessions(req.params.userId);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getApiKeys = catchAsync(async (req, res) => {
+    const apiKeys = await apiKeyService.queryApiKeys(req.params.userId);
+    res.send(apiKeys);
+});
+
+const createApiKey = catchAsyncWithAuth(async (req, res) => {
+    const apiKey = await apiKeyService.createApiKey(req.params.userId, req.body, req.apiKey?.scopes);
+    res.status(httpStatus.CREATED).send(apiKey);
+});
+
+const rotateApiKey = catchAsyncWithAuth(async (req, res) => {
+    const apiKey = await apiKeyService.rotateApiKey(req.params.userId, req.params.apiKeyId, req.apiKey?.scopes);
+    res.send(apiKey);
+});
+
+const revokeApiKey = catchAsyncWithAuth(async (req, res) => {
+    await apiKeyService.revokeApiKey(req.params.userId, req.params.apiKeyId, req.apiKey?.scopes);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
+const unlockUser = catchAsync(async (req, res) => {
+    await lockoutService.unlockUser(req.params.userId);
+    res.status(httpStatus.NO_CONTENT).send();
+});
+
 export default {
     createUser,
+    createServiceAccount,
     getUsers,
     getUser,
     updateUser,
-    deleteUser
+    deleteUser,
+    getMe,
+    updateMe,
+    deleteMe,
+    changePassword,
+    changeEmail,
+    createDataExport,
+    getDataExport,
+    restoreUser,
+    getUserSessions,
+    revokeUserSession,
+    revokeUserSessions,
+    getApiKeys,
+    createApiKey,
+    rotateApiKey,
+    revokeApiKey,
+    unlockUser
 };
@@ -2,9 +2,25 @@ import app from './app.ts';
 import prisma from './client.ts';
 import config from './config/config.ts';
 import logger from './config/logger.ts';
+import { privacyService } from './services/index.ts';
 import { Server } from 'http';
 
 let server: Server | undefined;
+let erasureJob: NodeJS.Timeout | undefined;
+
+// Deleted accounts are checked hourly for the end of their erasure grace period
+const ERASURE_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+const runErasureJob = async () => {
+    try {
+        const erasedCount = await privacyService.eraseDueUsers();
+        if (erasedCount) {
+            logger.info(`Erased ${erasedCount} deleted users`);
+        }
+    } catch (error) {
+        logger.error(error);
+    }
+};
 
 console.log('Starting');
 async function main() {
@@ -13,6 +29,7 @@ async function main() {
     server = app.listen(config.port, () => {
         logger.info(`Listening to port ${config.port}`);
     });
+    erasureJob = setInterval(runErasureJob, ERASURE_JOB_INTERVAL_MS);
 
     const exitHandler = () => {
         if (server) {
@@ -35,6 +52,7 @@ async function main() {
 
     process.on('SIGTERM', () => {
         logger.info('SIGTERM received');
+        clearInterval(erasureJob);
         if (server) {
             server.close();
         }
@@ -0,0 +1,19 @@
+import { getRequestSubject, hasSelfScope } from '../policies/index.ts';
+import ApiError from '../utils/ApiError.ts';
+import { AuthenticatedRequest } from '../utils/types.ts';
+import { NextFunction, Request, Response } from 'express';
+import httpStatus from 'http-status';
+
+/**
+ * Refuse API keys without the self scope, after auth()
+ * For the routes acting on the account of the user itself, which check no permission the scopes would limit
+ * @example requireSelfScope()
+ */
+const requireSelfScope = () => (req: Request, res: Response, next: NextFunction) => {
+    if (!hasSelfScope(getRequestSubject(req as AuthenticatedRequest))) {
+        return next(new ApiError(httpStatus.FORBIDDEN, 'Forbidden: requires the self API key scope'));
+    }
+    next();
+};
+
+export default requireSelfScope;
@@ -1,43 +1,107 @@
-import { roleRights } from '../config/roles.ts';
 import { User } from '../generated/prisma/index.js';
+import { getRequestSubject, hasRights } from '../policies/index.ts';
+import { organizationService } from '../services/index.ts';
 import ApiError from '../utils/ApiError.ts';
+import { getRequestContext } from '../utils/requestContext.ts';
+import { Tenant, runWithTenant } from '../utils/tenant.ts';
 import { NextFunction, Request, Response } from 'express';
 import httpStatus from 'http-status';
 import passport from 'passport';
 
+export interface AuthOptions {
+    // Reject users that have not verified their email yet
+    requireVerifiedEmail?: boolean;
+    // Also accept the access tokens issued to OAuth clients for this resource
+    audience?: string;
+}
+
+// User found by the jwt or apiKey passport strategies
+type AuthUser = User & {
+    tokenOrganizationId?: string;
+    tokenAudience?: string;
+    apiKey?: { id: number; scopes: string[] };
+    actor?: { id: string };
+};
+
 const verifyCallback =
-    (req: any, resolve: (value?: unknown) => void, reject: (reason?: unknown) => void, requiredRights: string[]) =>
-    // eslint-disable-next-line require-await
-    async (err: unknown, user: User | false, info: unknown) => {
-        if (err || info || !user) {
+    (
+        req: any,
+        resolve: (value?: unknown) => void,
+        reject: (reason?: unknown) => void,
+        requiredRights: string[],
+        options: AuthOptions
+    ) =>
+    async (err: unknown, authUser: AuthUser | false, info: unknown) => {
+        if (err || info || !authUser) {
+            return reject(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
+        }
+        const { tokenOrganizationId, tokenAudience, apiKey, actor, ...user } = authUser;
+        if (tokenAudience && tokenAudience !== options.audience) {
             return reject(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
         }
         req.user = user;
+        req.apiKey = apiKey;
+        req.actor = actor;
+        const requestContext = getRequestContext();
+        if (requestContext) {
+            requestContext.actorId = actor?.id ?? user.id;
+            requestContext.impersonatedUserId = actor ? user.id : undefined;
+        }
+        const subject = getRequestSubject(req);
+
+        if (options.requireVerifiedEmail && !user.isEmailVerified) {
+            return reject(new ApiError(httpStatus.FORBIDDEN, 'Email not verified'));
+        }
 
         if (requiredRights.length) {
-            const userRights = roleRights.get(user.role) ?? [];
-            const hasRequiredRights = requiredRights.every(requiredRight => userRights.includes(requiredRight));
-            if (!hasRequiredRights && req.params.userId !== user.id) {
+            let hasRequiredRights: boolean;
+            try {
+                hasRequiredRights = await hasRights(subject, requiredRights);
+            } catch (error) {
+                return reject(error);
+            }
+            if (!hasRequiredRights) {
                 return reject(new ApiError(httpStatus.FORBIDDEN, 'Forbidden'));
             }
         }
 
+        const organizationId = req.get('X-Organization-Id') || tokenOrganizationId;
+        if (organizationId) {
+            try {
+                req.tenant = await organizationService.resolveTenant(subject, organizationId);
+            } catch (error) {
+                return reject(error);
+            }
+        }
+
         resolve();
     };
 
-const auth =
-    (...requiredRights: string[]) =>
+/**
+ * Authenticate the request with an access token or an API key and check the user rights
+ * Checks depending on the resource, like ownership, are done by authorize() policies
+ * The request is scoped to the organization of the X-Organization-Id header, or else of the access token
+ * @example auth('manageUsers')
+ * @example auth({ requireVerifiedEmail: true }, 'manageUsers')
+ * @example auth({ audience: config.oauthServer.resource })
+ */
+const auth = (...args: [AuthOptions, ...string[]] | string[]) => {
+    const [options, requiredRights] =
+        typeof args[0] === 'object' ? [args[0], args.slice(1) as string[]] : [{}, args as string[]];
     // eslint-disable-next-line require-await
-    async (req: Request, res: Response, next: NextFunction) => {
+    const middleware = async (req: Request & { tenant?: Tenant }, res: Response, next: NextFunction) => {
         return new Promise((resolve, reject) => {
-            passport.authenticate('jwt', { session: false }, verifyCallback(req, resolve, reject, requiredRights))(
-                req,
-                res,
-                next
-            );
+            passport.authenticate(
+                ['jwt', 'apiKey'],
+                { session: false },
+                verifyCallback(req, resolve, reject, requiredRights, options)
+            )(req, res, next);
         })
-            .then(() => next())
+            .then(() => (req.tenant ? runWithTenant(req.tenant, () => next()) : next()))
             .catch(err => next(err));
     };
+    // Read by the MCP tools generated from the routes, see utils/routeTools.ts
+    return Object.assign(middleware, { authentication: { options, requiredRights } });
+};
 
 export default auth;
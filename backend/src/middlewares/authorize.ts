@@ -0,0 +1,32 @@
+import { authorizeAction, getPolicy, getRequestSubject } from '../policies/index.ts';
+import { getTenant } from '../utils/tenant.ts';
+import { AuthenticatedRequest } from '../utils/types.ts';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Check the policy of an action, after auth() and validate()
+ * The resource owner and organization are read from the route params and the changed fields from the body,
+ * the organization defaults to the one of the request
+ * @example authorize('user:update')
+ */
+const authorize = (action: string) => {
+    const middleware = async (req: Request, res: Response, next: NextFunction) => {
+        const policy = getPolicy(action);
+        try {
+            await authorizeAction(action, getRequestSubject(req as AuthenticatedRequest), {
+                ownerId: policy.ownerKey ? req.params[policy.ownerKey] : undefined,
+                organizationId: policy.organizationKey
+                    ? req.params[policy.organizationKey]
+                    : getTenant()?.organizationId,
+                fields: Object.keys(req.body ?? {})
+            });
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+    // Read by the MCP tools generated from the routes, see utils/routeTools.ts
+    return Object.assign(middleware, { action });
+};
+
+export default authorize;
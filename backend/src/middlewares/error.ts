@@ -2,6 +2,7 @@ import config from '../config/config.ts';
 import logger from '../config/logger.ts';
 import { Prisma } from '../generated/prisma/index.js';
 import ApiError from '../utils/ApiError.ts';
+import OAuthError from '../utils/OAuthError.ts';
 import { ErrorRequestHandler } from 'express';
 import httpStatus from 'http-status';
 
@@ -19,6 +20,14 @@ export const errorConverter: ErrorRequestHandler = (err, req, res, next) => {
     next(error);
 };
 
+// Clients of the OAuth endpoints expect RFC 6749 errors, e.g. for invalid parameters
+export const oauthErrorConverter: ErrorRequestHandler = (err, req, res, next) => {
+    if (err instanceof ApiError && !(err instanceof OAuthError) && err.statusCode < httpStatus.INTERNAL_SERVER_ERROR) {
+        return next(new OAuthError(err.statusCode, 'invalid_request', err.message ?? 'Invalid request'));
+    }
+    next(err);
+};
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
     let { statusCode, message } = err;
@@ -29,9 +38,14 @@ export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
 
     res.locals.errorMessage = err.message;
     console.log('in error');
+    if (err instanceof OAuthError) {
+        res.status(statusCode).send({ error: err.error, error_description: message });
+        return;
+    }
     const response = {
         code: statusCode,
         message,
+        ...(err.details && { details: err.details }),
         ...(config.env === 'development' && { stack: err.stack })
     };
 
@@ -0,0 +1,31 @@
+import { auditService } from '../services/index.ts';
+import { AuditEventType } from '../types/audit.ts';
+import ApiError from '../utils/ApiError.ts';
+import { AuthenticatedRequest } from '../utils/types.ts';
+import { NextFunction, Request, Response } from 'express';
+import httpStatus from 'http-status';
+
+/**
+ * Refuse a sensitive action to impersonation tokens, after auth()
+ * With fields, only requests changing one of them are refused
+ * @example denyImpersonation()
+ * @example denyImpersonation(['password', 'email'])
+ */
+const denyImpersonation = (fields?: string[]) => async (req: Request, res: Response, next: NextFunction) => {
+    const { actor, user } = req as AuthenticatedRequest;
+    if (!actor || (fields && !fields.some(field => req.body?.[field] !== undefined))) {
+        return next();
+    }
+    try {
+        await auditService.recordEvent(AuditEventType.IMPERSONATION_BLOCKED, {
+            actorId: actor.id,
+            targetId: user.id,
+            metadata: { method: req.method, path: req.originalUrl }
+        });
+    } catch (error) {
+        return next(error);
+    }
+    next(new ApiError(httpStatus.FORBIDDEN, 'Not allowed while impersonating a user'));
+};
+
+export default denyImpersonation;
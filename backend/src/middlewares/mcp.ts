@@ -1,33 +1,35 @@
+import config from '../config/config.ts';
+import ApiError from '../utils/ApiError.ts';
+import auth from './auth.ts';
 import { NextFunction, Request, Response } from 'express';
+import httpStatus from 'http-status';
 
-export const mcpAuthMiddleware = (req: Request, res: Response, next: NextFunction) => {
-    const apiKey = req.headers.authorization as string | undefined;
+// Tells MCP clients where to find the authorization server (RFC 9728)
+const RESOURCE_METADATA_URL = `${config.oauthServer.issuer}/.well-known/oauth-protected-resource/mcp`;
 
-    // Validate API key exists
-    if (!apiKey) {
-        return res.status(401).json({
-            jsonrpc: '2.0',
-            error: {
-                code: -32001,
-                message: 'Unauthorized: API key required'
-            },
-            id: req.body?.id || null
-        });
+const rejectRequest = (req: Request, res: Response, statusCode: number, message: string) => {
+    if (statusCode === httpStatus.UNAUTHORIZED) {
+        res.set('WWW-Authenticate', `Bearer resource_metadata="${RESOURCE_METADATA_URL}"`);
     }
-
-    const validApiKey = process.env.MCP_API_KEY;
-
-    // eslint-disable-next-line security/detect-possible-timing-attacks
-    if (apiKey !== validApiKey) {
-        return res.status(401).json({
-            jsonrpc: '2.0',
-            error: {
-                code: -32001,
-                message: 'Unauthorized: Invalid API key'
-            },
-            id: req.body?.id || null
-        });
-    }
-
-    next();
+    res.status(statusCode).json({
+        jsonrpc: '2.0',
+        error: {
+            code: -32001,
+            message
+        },
+        id: req.body?.id || null
+    });
 };
+
+/**
+ * Authenticate MCP requests as a user, with an access token or a personal API key like auth(),
+ * or with an access token issued to an OAuth client for the MCP endpoint
+ * The tools act as that user, errors are reported as JSON-RPC errors
+ */
+export const mcpAuthMiddleware = async (req: Request, res: Response, next: NextFunction) =>
+    await auth({ audience: config.oauthServer.resource })(req, res, (error?: unknown) => {
+        if (error instanceof ApiError) {
+            return rejectRequest(req, res, error.statusCode, error.message);
+        }
+        next(error);
+    });
@@ -1,7 +1,13 @@
+import config from '../config/config.ts';
+import { createStore } from '../rateLimit/index.ts';
 import rateLimit from 'express-rate-limit';
 
+// Limits repeated failed requests to the credential accepting auth endpoints per IP.
+// Failed logins are also counted per account, see lockoutService.
 export const authLimiter = rateLimit({
     windowMs: 15 * 60 * 1000,
-    max: 20,
-    skipSuccessfulRequests: true
+    limit: 20,
+    skipSuccessfulRequests: true,
+    skip: () => config.env === 'test',
+    store: createStore('auth')
 });
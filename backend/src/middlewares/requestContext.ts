@@ -0,0 +1,11 @@
+import { runWithRequestContext } from '../utils/requestContext.ts';
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Start the context of a request, registered after the body parsers so that it spans the route handlers
+ */
+const requestContext = (req: Request, res: Response, next: NextFunction) => {
+    runWithRequestContext({ ipAddress: req.ip, userAgent: req.get('user-agent') }, () => next());
+};
+
+export default requestContext;
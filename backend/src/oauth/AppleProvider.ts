@@ -0,0 +1,33 @@
+import { OidcProvider } from './OidcProvider.ts';
+import { OAuthProviderName } from './types.ts';
+import jwt from 'jsonwebtoken';
+
+export class AppleProvider extends OidcProvider {
+    private readonly teamId: string;
+    private readonly keyId: string;
+    private readonly privateKey: string;
+
+    constructor(params: { issuer: string; clientId: string; teamId: string; keyId: string; privateKey: string }) {
+        const { issuer, clientId, teamId, keyId, privateKey } = params;
+        super({ name: OAuthProviderName.Apple, issuer, clientId, scope: 'openid email name' });
+        if (!teamId || !keyId || !privateKey) {
+            throw new Error('APPLE_TEAM_ID, APPLE_KEY_ID and APPLE_PRIVATE_KEY are required');
+        }
+        this.teamId = teamId;
+        this.keyId = keyId;
+        this.privateKey = privateKey.replace(/\\n/g, '\n');
+    }
+
+    // Apple expects a short-lived JWT signed with the private key instead of a static client secret
+    // eslint-disable-next-line require-await
+    protected async getClientSecret(): Promise<string> {
+        return jwt.sign({}, this.privateKey, {
+            algorithm: 'ES256',
+            keyid: this.keyId,
+            issuer: this.teamId,
+            subject: this.options.clientId,
+            audience: this.options.issuer,
+            expiresIn: '5m'
+        });
+    }
+}
@@ -0,0 +1,26 @@
+import { AuthorizationCodeParams, AuthorizationUrlParams, OAuthProfile, OAuthProviderName } from './types.ts';
+
+export abstract class BaseOAuthProvider {
+    abstract getProviderName(): OAuthProviderName;
+    // URL the app opens to start the authorization-code + PKCE (S256) flow
+    abstract getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string>;
+    // Redeem the authorization code and return the verified profile of the user
+    abstract getProfile(params: AuthorizationCodeParams): Promise<OAuthProfile>;
+
+    protected async postForm(url: string, form: Record<string, string | undefined>): Promise<any> {
+        const body = new URLSearchParams();
+        for (const [key, value] of Object.entries(form)) {
+            if (value !== undefined) body.append(key, value);
+        }
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+            body
+        });
+        const data = await response.json();
+        if (!response.ok || data.error) {
+            throw new Error(`Token request failed: ${data.error_description || data.error || response.status}`);
+        }
+        return data;
+    }
+}
@@ -0,0 +1,75 @@
+import { BaseOAuthProvider } from './BaseOAuthProvider.ts';
+import { AuthorizationCodeParams, AuthorizationUrlParams, OAuthProfile, OAuthProviderName } from './types.ts';
+
+const GITHUB_AUTHORIZE_URL = 'https://github.com/login/oauth/authorize';
+const GITHUB_TOKEN_URL = 'https://github.com/login/oauth/access_token';
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * GitHub only speaks OAuth 2.0, the profile is read from its REST API instead of an id token
+ */
+export class GitHubProvider extends BaseOAuthProvider {
+    private readonly clientId: string;
+    private readonly clientSecret: string;
+
+    constructor(params: { clientId: string; clientSecret: string }) {
+        super();
+        if (!params.clientId || !params.clientSecret) {
+            throw new Error('GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET are required');
+        }
+        this.clientId = params.clientId;
+        this.clientSecret = params.clientSecret;
+    }
+
+    getProviderName(): OAuthProviderName {
+        return OAuthProviderName.GitHub;
+    }
+
+    // eslint-disable-next-line require-await
+    async getAuthorizationUrl(params: AuthorizationUrlParams) {
+        const { redirectUri, codeChallenge, state } = params;
+        const url = new URL(GITHUB_AUTHORIZE_URL);
+        url.search = new URLSearchParams({
+            client_id: this.clientId,
+            redirect_uri: redirectUri,
+            scope: 'read:user user:email',
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+            ...(state && { state })
+        }).toString();
+        return url.toString();
+    }
+
+    private async getApi<T>(path: string, accessToken: string): Promise<T> {
+        const response = await fetch(`${GITHUB_API_URL}${path}`, {
+            headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.github+json' }
+        });
+        if (!response.ok) {
+            throw new Error(`GitHub API request ${path} failed: ${response.status}`);
+        }
+        return (await response.json()) as T;
+    }
+
+    async getProfile(params: AuthorizationCodeParams): Promise<OAuthProfile> {
+        const { code, codeVerifier, redirectUri } = params;
+        const tokens = await this.postForm(GITHUB_TOKEN_URL, {
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+            code,
+            redirect_uri: redirectUri,
+            code_verifier: codeVerifier
+        });
+        const user = await this.getApi<{ id: number; name: string | null }>('/user', tokens.access_token);
+        const emails = await this.getApi<{ email: string; primary: boolean; verified: boolean }[]>(
+            '/user/emails',
+            tokens.access_token
+        );
+        const primaryEmail = emails.find(email => email.primary) ?? emails.find(email => email.verified);
+        return {
+            subject: String(user.id),
+            email: primaryEmail?.email,
+            emailVerified: !!primaryEmail?.verified,
+            name: user.name ?? undefined
+        };
+    }
+}
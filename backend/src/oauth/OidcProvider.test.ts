@@ -0,0 +1,171 @@
+import { OidcProvider } from './OidcProvider.ts';
+import { OAuthProviderName } from './types.ts';
+import jwt from 'jsonwebtoken';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+
+const CLIENT_ID = 'test-client';
+const REDIRECT_URI = 'myapp://oauth/callback';
+
+interface MockOidcProvider {
+    issuer: string;
+    // Authorization code the provider accepts with the PKCE challenge and the claims of the id token it issues
+    issueCode: (codeChallenge: string, claims: Record<string, unknown>) => string;
+    close: () => Promise<void>;
+}
+
+/**
+ * Start a local OpenID Connect provider: discovery, JWKS and a token endpoint checking the PKCE verifier
+ * @param {Object} [options]
+ * @param {string} [options.audience] - audience of the id tokens, the client id by default
+ * @returns {Promise<MockOidcProvider>}
+ */
+const startMockOidcProvider = async (options: { audience?: string } = {}): Promise<MockOidcProvider> => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const kid = 'test-key';
+    const codes = new Map<string, { codeChallenge: string; claims: Record<string, unknown> }>();
+    let issuer = '';
+
+    const server = http.createServer((req, res) => {
+        const sendJson = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        if (req.url === '/.well-known/openid-configuration') {
+            return sendJson(200, {
+                issuer,
+                authorization_endpoint: `${issuer}/authorize`,
+                token_endpoint: `${issuer}/token`,
+                jwks_uri: `${issuer}/jwks`
+            });
+        }
+        if (req.url === '/jwks') {
+            return sendJson(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+        }
+        if (req.url === '/token' && req.method === 'POST') {
+            let body = '';
+            req.on('data', chunk => (body += chunk));
+            req.on('end', () => {
+                const form = new URLSearchParams(body);
+                const grant = codes.get(form.get('code') ?? '');
+                const challenge = crypto
+                    .createHash('sha256')
+                    .update(form.get('code_verifier') ?? '')
+                    .digest('base64url');
+                if (!grant || grant.codeChallenge !== challenge || form.get('client_id') !== CLIENT_ID) {
+                    return sendJson(400, { error: 'invalid_grant' });
+                }
+                codes.delete(form.get('code')!);
+                const idToken = jwt.sign(grant.claims, privateKey, {
+                    algorithm: 'RS256',
+                    keyid: kid,
+                    issuer,
+                    audience: options.audience ?? CLIENT_ID,
+                    expiresIn: '5m'
+                });
+                sendJson(200, { access_token: 'access-token', token_type: 'Bearer', id_token: idToken });
+            });
+            return;
+        }
+        sendJson(404, { error: 'not_found' });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        issuer,
+        issueCode: (codeChallenge, claims) => {
+            const code = crypto.randomBytes(16).toString('hex');
+            codes.set(code, { codeChallenge, claims });
+            return code;
+        },
+        close: async () => await new Promise<void>(resolve => server.close(() => resolve()))
+    };
+};
+
+const createPkcePair = () => {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    return { codeVerifier, codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url') };
+};
+
+describe('OidcProvider', () => {
+    let mockProvider: MockOidcProvider;
+    let provider: OidcProvider;
+
+    before(async () => {
+        mockProvider = await startMockOidcProvider();
+        provider = new OidcProvider({ name: OAuthProviderName.Oidc, issuer: mockProvider.issuer, clientId: CLIENT_ID });
+    });
+
+    after(async () => {
+        await mockProvider.close();
+    });
+
+    it('builds the authorization URL of an authorization code + PKCE flow', async () => {
+        const url = new URL(
+            await provider.getAuthorizationUrl({ redirectUri: REDIRECT_URI, codeChallenge: 'challenge', state: 'xyz' })
+        );
+        assert.equal(`${url.origin}${url.pathname}`, `${mockProvider.issuer}/authorize`);
+        assert.equal(url.searchParams.get('response_type'), 'code');
+        assert.equal(url.searchParams.get('client_id'), CLIENT_ID);
+        assert.equal(url.searchParams.get('redirect_uri'), REDIRECT_URI);
+        assert.equal(url.searchParams.get('code_challenge'), 'challenge');
+        assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+        assert.equal(url.searchParams.get('state'), 'xyz');
+    });
+
+    it('returns the verified profile of the id token', async () => {
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const code = mockProvider.issueCode(codeChallenge, {
+            sub: 'user-1',
+            email: 'user@example.com',
+            email_verified: true,
+            name: 'Test User'
+        });
+        const profile = await provider.getProfile({ code, codeVerifier, redirectUri: REDIRECT_URI });
+        assert.deepEqual(profile, {
+            subject: 'user-1',
+            email: 'user@example.com',
+            emailVerified: true,
+            name: 'Test User'
+        });
+    });
+
+    it('reports an unverified email', async () => {
+        const { codeVerifier, codeChallenge } = createPkcePair();
+        const code = mockProvider.issueCode(codeChallenge, { sub: 'user-2', email: 'user@example.com' });
+        const profile = await provider.getProfile({ code, codeVerifier, redirectUri: REDIRECT_URI });
+        assert.equal(profile.emailVerified, false);
+    });
+
+    it('rejects a code redeemed with another PKCE verifier', async () => {
+        const { codeChallenge } = createPkcePair();
+        const code = mockProvider.issueCode(codeChallenge, { sub: 'user-1' });
+        await assert.rejects(
+            provider.getProfile({ code, codeVerifier: createPkcePair().codeVerifier, redirectUri: REDIRECT_URI }),
+            /invalid_grant/
+        );
+    });
+
+    it('rejects an id token issued to another client', async () => {
+        const otherMockProvider = await startMockOidcProvider({ audience: 'other-client' });
+        try {
+            const otherProvider = new OidcProvider({
+                name: OAuthProviderName.Oidc,
+                issuer: otherMockProvider.issuer,
+                clientId: CLIENT_ID
+            });
+            const { codeVerifier, codeChallenge } = createPkcePair();
+            const code = otherMockProvider.issueCode(codeChallenge, { sub: 'user-1' });
+            await assert.rejects(
+                otherProvider.getProfile({ code, codeVerifier, redirectUri: REDIRECT_URI }),
+                /jwt audience invalid/
+            );
+        } finally {
+            await otherMockProvider.close();
+        }
+    });
+});
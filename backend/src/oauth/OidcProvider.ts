@@ -0,0 +1,127 @@
+import { BaseOAuthProvider } from './BaseOAuthProvider.ts';
+import { AuthorizationCodeParams, AuthorizationUrlParams, OAuthProfile, OAuthProviderName } from './types.ts';
+import { JsonWebKey, createPublicKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+interface OidcDiscovery {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+export interface OidcProviderOptions {
+    name: OAuthProviderName;
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scope?: string;
+}
+
+export class OidcProvider extends BaseOAuthProvider {
+    private discovery?: Promise<OidcDiscovery>;
+    private jwks = new Map<string, JsonWebKey>();
+
+    constructor(protected readonly options: OidcProviderOptions) {
+        super();
+        if (!options.issuer) {
+            throw new Error(`Issuer is required for ${options.name}`);
+        }
+        if (!options.clientId) {
+            throw new Error(`Client id is required for ${options.name}`);
+        }
+    }
+
+    getProviderName(): OAuthProviderName {
+        return this.options.name;
+    }
+
+    // eslint-disable-next-line require-await
+    protected async getDiscovery(): Promise<OidcDiscovery> {
+        if (!this.discovery) {
+            const url = `${this.options.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+            this.discovery = fetch(url).then(async response => {
+                if (!response.ok) {
+                    throw new Error(`OpenID discovery failed for ${this.options.name}: ${response.status}`);
+                }
+                return (await response.json()) as OidcDiscovery;
+            });
+            // Retry the discovery on the next login instead of caching the failure
+            this.discovery.catch(() => (this.discovery = undefined));
+        }
+        return this.discovery;
+    }
+
+    // eslint-disable-next-line require-await
+    protected async getClientSecret(): Promise<string | undefined> {
+        return this.options.clientSecret;
+    }
+
+    async getAuthorizationUrl(params: AuthorizationUrlParams) {
+        const { redirectUri, codeChallenge, state } = params;
+        const discovery = await this.getDiscovery();
+        const url = new URL(discovery.authorization_endpoint);
+        url.search = new URLSearchParams({
+            response_type: 'code',
+            client_id: this.options.clientId,
+            redirect_uri: redirectUri,
+            scope: this.options.scope ?? 'openid email profile',
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+            ...(state && { state })
+        }).toString();
+        return url.toString();
+    }
+
+    private async getSigningKey(kid: string | undefined): Promise<JsonWebKey> {
+        const cachedKey = kid ? this.jwks.get(kid) : undefined;
+        if (cachedKey) {
+            return cachedKey;
+        }
+        // Unknown key id, the provider may have rotated its keys
+        const discovery = await this.getDiscovery();
+        const response = await fetch(discovery.jwks_uri);
+        const { keys } = (await response.json()) as { keys: (JsonWebKey & { kid?: string })[] };
+        this.jwks = new Map(keys.map(key => [key.kid ?? '', key]));
+        const key = kid ? this.jwks.get(kid) : keys[0];
+        if (!key) {
+            throw new Error(`Signing key ${kid} not found for ${this.options.name}`);
+        }
+        return key;
+    }
+
+    protected async verifyIdToken(idToken: string): Promise<jwt.JwtPayload> {
+        const decoded = jwt.decode(idToken, { complete: true });
+        if (!decoded) {
+            throw new Error('Invalid id token');
+        }
+        const discovery = await this.getDiscovery();
+        const key = createPublicKey({ key: await this.getSigningKey(decoded.header.kid), format: 'jwk' });
+        return jwt.verify(idToken, key, {
+            algorithms: ['RS256', 'ES256'],
+            issuer: discovery.issuer,
+            audience: this.options.clientId
+        }) as jwt.JwtPayload;
+    }
+
+    async getProfile(params: AuthorizationCodeParams): Promise<OAuthProfile> {
+        const { code, codeVerifier, redirectUri } = params;
+        const discovery = await this.getDiscovery();
+        const tokens = await this.postForm(discovery.token_endpoint, {
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: redirectUri,
+            client_id: this.options.clientId,
+            client_secret: await this.getClientSecret(),
+            code_verifier: codeVerifier
+        });
+        const claims = await this.verifyIdToken(tokens.id_token);
+        return {
+            subject: String(claims.sub),
+            email: claims.email,
+            // Some providers, like Apple, send the flag as a string
+            emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+            name: claims.name
+        };
+    }
+}
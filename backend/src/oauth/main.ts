@@ -0,0 +1,34 @@
+import config from '../config/config.ts';
+import { AppleProvider } from './AppleProvider.ts';
+import { BaseOAuthProvider } from './BaseOAuthProvider.ts';
+import { GitHubProvider } from './GitHubProvider.ts';
+import { OidcProvider } from './OidcProvider.ts';
+import { OAuthProviderName } from './types.ts';
+
+const instanceMap = new Map<OAuthProviderName, BaseOAuthProvider>();
+
+// A provider is enabled once its client id is configured
+export function isConfigured(provider: OAuthProviderName): boolean {
+    return !!config.oauth[provider].clientId;
+}
+
+export function getInstance(provider: OAuthProviderName): BaseOAuthProvider {
+    if (instanceMap.has(provider)) return instanceMap.get(provider)!;
+    switch (provider) {
+        case OAuthProviderName.Google:
+            instanceMap.set(provider, new OidcProvider({ name: provider, ...config.oauth.google }));
+            break;
+        case OAuthProviderName.Apple:
+            instanceMap.set(provider, new AppleProvider(config.oauth.apple));
+            break;
+        case OAuthProviderName.GitHub:
+            instanceMap.set(provider, new GitHubProvider(config.oauth.github));
+            break;
+        case OAuthProviderName.Oidc:
+            instanceMap.set(provider, new OidcProvider({ name: provider, ...config.oauth.oidc }));
+            break;
+        default:
+            throw new Error(`Unknown OAuth provider: ${provider}`);
+    }
+    return instanceMap.get(provider)!;
+}
@@ -0,0 +1,27 @@
+export enum OAuthProviderName {
+    Google = 'google',
+    Apple = 'apple',
+    GitHub = 'github',
+    // Any other OpenID Connect provider, e.g. a local mock issuer
+    Oidc = 'oidc'
+}
+
+export interface OAuthProfile {
+    // Stable user id at the provider
+    subject: string;
+    email?: string;
+    emailVerified: boolean;
+    name?: string;
+}
+
+export interface AuthorizationUrlParams {
+    redirectUri: string;
+    codeChallenge: string;
+    state?: string;
+}
+
+export interface AuthorizationCodeParams {
+    code: string;
+    codeVerifier: string;
+    redirectUri: string;
+}
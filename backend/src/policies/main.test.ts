@@ -0,0 +1,236 @@
+import { Membership, OrganizationRole, User } from '../generated/prisma/index.js';
+import organizationService from '../services/organization.service.ts';
+import roleService from '../services/role.service.ts';
+import userService from '../services/user.service.ts';
+import ApiError from '../utils/ApiError.ts';
+import { authorizeAction, evaluatePolicy, hasRights, mayBeAllowed } from './main.ts';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+const ORGANIZATION_ID = 'organization-1';
+
+// Rights of the roles, members of the organization and service accounts known to the mocked services
+const rolePermissions: Record<string, string[]> = {
+    ADMIN: ['getUsers', 'manageUsers', 'manageOrganizations'],
+    USER: []
+};
+const memberships: Record<string, OrganizationRole> = {
+    owner: OrganizationRole.OWNER,
+    admin: OrganizationRole.ADMIN,
+    member: OrganizationRole.MEMBER
+};
+const serviceAccountIds = ['service-account'];
+
+const admin = { id: 'admin', role: 'ADMIN' };
+const user = { id: 'user', role: 'USER' };
+
+describe('policies', () => {
+    beforeEach(() => {
+        mock.method(roleService, 'hasPermissions', async (role: string, rights: string[]) =>
+            rights.every(right => rolePermissions[role]?.includes(right))
+        );
+        mock.method(userService, 'getUserById', async (id: string) =>
+            id === 'missing' ? null : ({ isServiceAccount: serviceAccountIds.includes(id) } as Partial<User>)
+        );
+        mock.method(organizationService, 'getMembership', async (organizationId: string, userId: string) =>
+            organizationId === ORGANIZATION_ID && memberships[userId]
+                ? ({ organizationId, userId, role: memberships[userId] } as Partial<Membership>)
+                : null
+        );
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    describe('hasRights', () => {
+        it('checks the rights of the role', async () => {
+            assert.equal(await hasRights(admin, ['getUsers', 'manageUsers']), true);
+            assert.equal(await hasRights(user, ['getUsers']), false);
+        });
+
+        it('limits API keys to the rights within their scopes', async () => {
+            assert.equal(await hasRights({ ...admin, scopes: ['getUsers'] }, ['getUsers']), true);
+            assert.equal(await hasRights({ ...admin, scopes: ['getUsers'] }, ['manageUsers']), false);
+            assert.equal(await hasRights({ ...user, scopes: ['getUsers'] }, ['getUsers']), false);
+        });
+    });
+
+    describe('owner rules', () => {
+        it('let owners read their own account only', async () => {
+            assert.equal((await evaluatePolicy('user:read', user, { ownerId: user.id, fields: [] })).allowed, true);
+            assert.deepEqual(await evaluatePolicy('user:read', user, { ownerId: 'other', fields: [] }), {
+                action: 'user:read',
+                allowed: false,
+                reasons: ['requires the getUsers permission', 'requires being the owner']
+            });
+        });
+
+        it('limit owners to the fields of the rule', async () => {
+            const allowed = await evaluatePolicy('user:update', user, { ownerId: user.id, fields: ['name'] });
+            assert.equal(allowed.allowed, true);
+            const denied = await evaluatePolicy('user:update', user, { ownerId: user.id, fields: ['name', 'email'] });
+            assert.deepEqual(denied.reasons, [
+                'requires the manageUsers permission',
+                'the owner may only change name, not email'
+            ]);
+        });
+
+        it('give no rule without rights to owners deleting their account', async () => {
+            const decision = await evaluatePolicy('user:delete', user, { ownerId: user.id, fields: [] });
+            assert.equal(decision.allowed, false);
+        });
+
+        it('let any field be changed with the rights of the rule', async () => {
+            const decision = await evaluatePolicy('user:update', admin, {
+                ownerId: user.id,
+                fields: ['email', 'role']
+            });
+            assert.equal(decision.allowed, true);
+        });
+    });
+
+    describe('service account owners', () => {
+        it('let admins manage the API keys of service accounts only', async () => {
+            const serviceAccount = await evaluatePolicy('apiKey:manage', admin, {
+                ownerId: 'service-account',
+                fields: []
+            });
+            assert.equal(serviceAccount.allowed, true);
+            const personal = await evaluatePolicy('apiKey:manage', admin, { ownerId: user.id, fields: [] });
+            assert.deepEqual(personal.reasons, [
+                'requires the owner to be a service account',
+                'requires being the owner'
+            ]);
+        });
+
+        it('deny the keys of an unknown owner', async () => {
+            const decision = await evaluatePolicy('apiKey:manage', admin, { ownerId: 'missing', fields: [] });
+            assert.equal(decision.allowed, false);
+        });
+
+        it('let users manage their own keys', async () => {
+            const decision = await evaluatePolicy('apiKey:manage', user, { ownerId: user.id, fields: [] });
+            assert.equal(decision.allowed, true);
+        });
+    });
+
+    describe('organization roles', () => {
+        const input = { organizationId: ORGANIZATION_ID, fields: [] };
+
+        it('grant the actions of the role of the member', async () => {
+            assert.equal(
+                (await evaluatePolicy('organization:read', { id: 'member', role: 'USER' }, input)).allowed,
+                true
+            );
+            assert.equal(
+                (await evaluatePolicy('organization:update', { id: 'admin', role: 'USER' }, input)).allowed,
+                true
+            );
+            assert.equal(
+                (await evaluatePolicy('organization:delete', { id: 'owner', role: 'USER' }, input)).allowed,
+                true
+            );
+        });
+
+        it('deny the actions above the role of the member', async () => {
+            const decision = await evaluatePolicy('organization:delete', { id: 'admin', role: 'USER' }, input);
+            assert.deepEqual(decision.reasons, [
+                'requires the manageOrganizations permission',
+                'requires the OWNER organization role'
+            ]);
+        });
+
+        it('deny users outside of the organization', async () => {
+            const decision = await evaluatePolicy('organization:read', { id: 'stranger', role: 'USER' }, input);
+            assert.equal(decision.allowed, false);
+        });
+
+        it('let members leave the organization', async () => {
+            const decision = await evaluatePolicy(
+                'member:remove',
+                { id: 'member', role: 'USER' },
+                { ...input, ownerId: 'member' }
+            );
+            assert.equal(decision.allowed, true);
+        });
+
+        it('let the manageOrganizations right act on any organization', async () => {
+            const decision = await evaluatePolicy('organization:delete', { id: 'stranger', role: 'ADMIN' }, input);
+            assert.equal(decision.allowed, true);
+        });
+    });
+
+    describe('API keys', () => {
+        it('deny owner rules to keys without the self scope', async () => {
+            const decision = await evaluatePolicy(
+                'session:revoke',
+                { ...user, scopes: [] },
+                { ownerId: user.id, fields: [] }
+            );
+            assert.deepEqual(decision.reasons, [
+                'requires the manageUsers permission',
+                'requires the self API key scope'
+            ]);
+        });
+
+        it('deny organization role rules to keys without the self scope', async () => {
+            const decision = await evaluatePolicy(
+                'organization:read',
+                { id: 'member', role: 'USER', scopes: ['getUsers'] },
+                { organizationId: ORGANIZATION_ID, fields: [] }
+            );
+            assert.equal(decision.allowed, false);
+        });
+
+        it('grant owner rules to keys with the self scope', async () => {
+            const decision = await evaluatePolicy(
+                'session:revoke',
+                { ...user, scopes: ['self'] },
+                { ownerId: user.id, fields: [] }
+            );
+            assert.equal(decision.allowed, true);
+        });
+
+        it('grant rules with rights to keys with the rights in their scopes', async () => {
+            const decision = await evaluatePolicy(
+                'user:read',
+                { ...admin, scopes: ['getUsers'] },
+                { ownerId: user.id, fields: [] }
+            );
+            assert.equal(decision.allowed, true);
+        });
+    });
+
+    describe('mayBeAllowed', () => {
+        it('assumes the conditions on the resource hold', async () => {
+            assert.equal(await mayBeAllowed('user:update', user), true);
+            assert.equal(await mayBeAllowed('user:delete', user), false);
+            assert.equal(await mayBeAllowed('user:delete', admin), true);
+        });
+
+        it('requires the self scope for rules without rights', async () => {
+            assert.equal(await mayBeAllowed('user:update', { ...user, scopes: [] }), false);
+            assert.equal(await mayBeAllowed('user:update', { ...user, scopes: ['self'] }), true);
+        });
+    });
+
+    describe('authorizeAction', () => {
+        it('explains a denial in a forbidden error', async () => {
+            const error = await authorizeAction('user:delete', user, { ownerId: user.id, fields: [] }).catch(
+                (error: unknown) => error
+            );
+            assert.ok(error instanceof ApiError);
+            assert.equal(error.statusCode, 403);
+            assert.equal(error.message, 'Forbidden: user:delete requires the manageUsers permission');
+            assert.deepEqual(error.details, {
+                action: 'user:delete',
+                reasons: ['requires the manageUsers permission']
+            });
+        });
+
+        it('rejects unknown actions', async () => {
+            await assert.rejects(authorizeAction('user:unknown', admin, { fields: [] }), /Unknown policy action/);
+        });
+    });
+});
@@ -0,0 +1,161 @@
+import { SELF_SCOPE } from '../config/roles.ts';
+import { OrganizationRole } from '../generated/prisma/index.js';
+import organizationService from '../services/organization.service.ts';
+import roleService from '../services/role.service.ts';
+import userService from '../services/user.service.ts';
+import ApiError from '../utils/ApiError.ts';
+import { getTenant } from '../utils/tenant.ts';
+import { AuthenticatedRequest } from '../utils/types.ts';
+import { organizationPolicies } from './organization.policy.ts';
+import { Policy, PolicyDecision, PolicyInput, PolicyRule, PolicySubject } from './types.ts';
+import { userPolicies } from './user.policy.ts';
+import httpStatus from 'http-status';
+
+const policyMap = new Map<string, Policy>(
+    [...userPolicies, ...organizationPolicies].map(policy => [policy.action, policy])
+);
+
+export function getPolicy(action: string): Policy {
+    const policy = policyMap.get(action);
+    if (!policy) {
+        throw new Error(`Unknown policy action: ${action}`);
+    }
+    return policy;
+}
+
+/**
+ * Get the subject of an authenticated request
+ * @param {AuthenticatedRequest} req
+ * @returns {PolicySubject}
+ */
+export function getRequestSubject(req: AuthenticatedRequest): PolicySubject & { id: string } {
+    return { id: req.user.id, role: req.user.role, scopes: req.apiKey?.scopes };
+}
+
+/**
+ * Check the rights of a subject, API keys only have the rights of their role within their scopes
+ * @param {PolicySubject} subject
+ * @param {string[]} rights
+ * @returns {Promise<boolean>}
+ */
+export async function hasRights(subject: PolicySubject, rights: string[]): Promise<boolean> {
+    if (subject.scopes && !rights.every(right => subject.scopes!.includes(right))) {
+        return false;
+    }
+    return await roleService.hasPermissions(subject.role, rights);
+}
+
+/**
+ * Check whether a subject may act as its user where no permission is checked, API keys need the self scope
+ * @param {PolicySubject} subject
+ * @returns {boolean}
+ */
+export function hasSelfScope(subject: PolicySubject): boolean {
+    return !subject.scopes || subject.scopes.includes(SELF_SCOPE);
+}
+
+/**
+ * Get the role of the subject in the organization of the resource
+ * @returns {Promise<OrganizationRole | null>} null when the subject is not a member
+ */
+async function getOrganizationRole(subject: PolicySubject, input: PolicyInput): Promise<OrganizationRole | null> {
+    if (!subject.id || !input.organizationId) {
+        return null;
+    }
+    const tenant = getTenant();
+    if (tenant?.organizationId === input.organizationId) {
+        return tenant.organizationRole;
+    }
+    const membership = await organizationService.getMembership(input.organizationId, subject.id);
+    return membership?.role ?? null;
+}
+
+/**
+ * Check a rule of a policy
+ * @returns {Promise<string | null>} why the rule does not grant the action, or null when it does
+ */
+async function evaluateRule(rule: PolicyRule, subject: PolicySubject, input: PolicyInput): Promise<string | null> {
+    if (rule.rights?.length && !(await hasRights(subject, rule.rights))) {
+        return `requires the ${rule.rights.join(', ')} permission${rule.rights.length > 1 ? 's' : ''}`;
+    }
+    // Ownership and organization roles are not permissions, the scopes of a key would not limit them otherwise
+    if (!rule.rights?.length && !hasSelfScope(subject)) {
+        return `requires the ${SELF_SCOPE} API key scope`;
+    }
+    if (rule.owner && (!subject.id || subject.id !== input.ownerId)) {
+        return 'requires being the owner';
+    }
+    if (rule.serviceAccountOwner) {
+        const owner = input.ownerId ? await userService.getUserById(input.ownerId, ['isServiceAccount']) : null;
+        if (!owner?.isServiceAccount) {
+            return 'requires the owner to be a service account';
+        }
+    }
+    if (rule.organizationRoles?.length) {
+        const organizationRole = await getOrganizationRole(subject, input);
+        if (!organizationRole || !rule.organizationRoles.includes(organizationRole)) {
+            return `requires the ${rule.organizationRoles.join(' or ')} organization role`;
+        }
+    }
+    const deniedFields = rule.fields ? input.fields.filter(field => !rule.fields!.includes(field)) : [];
+    if (deniedFields.length) {
+        const who = rule.owner ? 'the owner' : `the ${rule.rights?.join(', ')} permission`;
+        return `${who} may only change ${rule.fields!.join(', ')}, not ${deniedFields.join(', ')}`;
+    }
+    return null;
+}
+
+/**
+ * Evaluate the policy of an action
+ * @param {string} action
+ * @param {PolicySubject} subject
+ * @param {PolicyInput} input
+ * @returns {Promise<PolicyDecision>}
+ */
+export async function evaluatePolicy(
+    action: string,
+    subject: PolicySubject,
+    input: PolicyInput
+): Promise<PolicyDecision> {
+    const reasons: string[] = [];
+    for (const rule of getPolicy(action).rules) {
+        const reason = await evaluateRule(rule, subject, input);
+        if (!reason) {
+            return { action, allowed: true, reasons: [] };
+        }
+        reasons.push(reason);
+    }
+    return { action, allowed: false, reasons };
+}
+
+/**
+ * Check whether a rule of the policy of an action can grant it to the subject, before knowing the resource:
+ * ownership, service account, organization role and field conditions are assumed to hold, not the self scope of API keys
+ * @param {string} action
+ * @param {PolicySubject} subject
+ * @returns {Promise<boolean>}
+ */
+export async function mayBeAllowed(action: string, subject: PolicySubject): Promise<boolean> {
+    for (const rule of getPolicy(action).rules) {
+        if (rule.rights?.length ? await hasRights(subject, rule.rights) : hasSelfScope(subject)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Evaluate the policy of an action, or throw a forbidden error explaining the denial
+ * @param {string} action
+ * @param {PolicySubject} subject
+ * @param {PolicyInput} input
+ * @returns {Promise<void>}
+ */
+export async function authorizeAction(action: string, subject: PolicySubject, input: PolicyInput): Promise<void> {
+    const decision = await evaluatePolicy(action, subject, input);
+    if (!decision.allowed) {
+        const error = new ApiError(httpStatus.FORBIDDEN, `Forbidden: ${action} ${decision.reasons.join(', or ')}`);
+        error.details = { action, reasons: decision.reasons };
+        throw error;
+    }
+}
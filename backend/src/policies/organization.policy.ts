@@ -0,0 +1,56 @@
+import { OrganizationRole } from '../generated/prisma/index.js';
+import { Policy } from './types.ts';
+
+const { OWNER, ADMIN, MEMBER } = OrganizationRole;
+
+// Members act on their organization depending on their organization role,
+// users with the manageOrganizations right act on any organization
+export const organizationPolicies: Policy[] = [
+    {
+        action: 'organization:read',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN, MEMBER] }]
+    },
+    {
+        action: 'organization:update',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN] }]
+    },
+    {
+        action: 'organization:delete',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER] }]
+    },
+    {
+        action: 'member:list',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN, MEMBER] }]
+    },
+    {
+        action: 'member:update',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN] }]
+    },
+    {
+        // Members may leave the organization
+        action: 'member:remove',
+        organizationKey: 'organizationId',
+        ownerKey: 'userId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN] }, { owner: true }]
+    },
+    {
+        action: 'invitation:create',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN] }]
+    },
+    {
+        action: 'invitation:list',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN] }]
+    },
+    {
+        action: 'invitation:revoke',
+        organizationKey: 'organizationId',
+        rules: [{ rights: ['manageOrganizations'] }, { organizationRoles: [OWNER, ADMIN] }]
+    }
+];
@@ -0,0 +1,47 @@
+import { OrganizationRole } from '../generated/prisma/index.js';
+
+// Who performs an action
+export interface PolicySubject {
+    id?: string;
+    role: string;
+    // Permissions an API key is limited to, set when authenticated with an API key
+    scopes?: string[];
+}
+
+// A rule grants the action when all of its conditions hold
+export interface PolicyRule {
+    // Rights the role of the subject must have
+    rights?: string[];
+    // The subject must own the resource
+    owner?: boolean;
+    // The owner of the resource must be a service account
+    serviceAccountOwner?: boolean;
+    // Roles the subject must have in the organization of the resource
+    organizationRoles?: OrganizationRole[];
+    // Input fields the rule allows, any field when omitted
+    fields?: string[];
+}
+
+export interface Policy {
+    action: string;
+    // Input key holding the id of the resource owner
+    ownerKey?: string;
+    // Input key holding the id of the organization, the organization of the request when omitted
+    organizationKey?: string;
+    // The action is allowed when any rule grants it
+    rules: PolicyRule[];
+}
+
+export interface PolicyInput {
+    ownerId?: string;
+    organizationId?: string;
+    // Fields the action changes
+    fields: string[];
+}
+
+export interface PolicyDecision {
+    action: string;
+    allowed: boolean;
+    // Why each rule did not grant the action
+    reasons: string[];
+}
@@ -0,0 +1,69 @@
+import { Policy } from './types.ts';
+
+// Users own their own account, the owner key is the user id itself
+export const userPolicies: Policy[] = [
+    {
+        action: 'user:create',
+        rules: [{ rights: ['manageUsers'] }]
+    },
+    {
+        action: 'user:list',
+        rules: [{ rights: ['getUsers'] }]
+    },
+    {
+        action: 'user:read',
+        ownerKey: 'userId',
+        rules: [{ rights: ['getUsers'] }, { owner: true }]
+    },
+    {
+        // Owners change their email and delete their account through /users/me, which verify the change
+        action: 'user:update',
+        ownerKey: 'userId',
+        rules: [{ rights: ['manageUsers'] }, { owner: true, fields: ['name'] }]
+    },
+    {
+        action: 'user:delete',
+        ownerKey: 'userId',
+        rules: [{ rights: ['manageUsers'] }]
+    },
+    {
+        action: 'user:restore',
+        rules: [{ rights: ['manageUsers'] }]
+    },
+    {
+        action: 'user:unlock',
+        ownerKey: 'userId',
+        rules: [{ rights: ['manageUsers'] }]
+    },
+    {
+        action: 'user:createServiceAccount',
+        rules: [{ rights: ['manageUsers'] }]
+    },
+    {
+        action: 'apiKey:list',
+        ownerKey: 'userId',
+        rules: [{ rights: ['getUsers'] }, { owner: true }]
+    },
+    {
+        // Personal keys are only managed by their owner, admins would otherwise act as the user without impersonating
+        action: 'apiKey:manage',
+        ownerKey: 'userId',
+        rules: [{ rights: ['manageUsers'], serviceAccountOwner: true }, { owner: true }]
+    },
+    {
+        // Stored files of a user, under users/<userId>/ or exports/<userId>/
+        action: 'file:read',
+        ownerKey: 'userId',
+        rules: [{ rights: ['getUsers'] }, { owner: true }]
+    },
+    {
+        action: 'session:read',
+        ownerKey: 'userId',
+        rules: [{ rights: ['getUsers'] }, { owner: true }]
+    },
+    {
+        action: 'session:revoke',
+        ownerKey: 'userId',
+        rules: [{ rights: ['manageUsers'] }, { owner: true }]
+    }
+];
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "family" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Token_family_idx" ON "Token"("family");
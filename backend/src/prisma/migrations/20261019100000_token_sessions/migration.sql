@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "deviceName" TEXT,
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "userAgent" TEXT;
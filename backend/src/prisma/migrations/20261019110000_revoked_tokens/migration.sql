@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "RevokedToken" (
+    "id" SERIAL NOT NULL,
+    "jti" TEXT,
+    "userId" TEXT,
+    "revokedBefore" TIMESTAMP(3),
+    "expires" TIMESTAMP(3) NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RevokedToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RevokedToken_jti_key" ON "RevokedToken"("jti");
+
+-- CreateIndex
+CREATE INDEX "RevokedToken_userId_idx" ON "RevokedToken"("userId");
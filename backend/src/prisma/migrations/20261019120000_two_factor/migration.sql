@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "TokenType" ADD VALUE 'MFA';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "isTwoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "twoFactorLastUsedStep" INTEGER,
+ADD COLUMN     "twoFactorRecoveryCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "twoFactorSecret" TEXT;
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "Role" (
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "Permission" (
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "id" SERIAL NOT NULL,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "roleName" TEXT NOT NULL,
+    "permissionName" TEXT NOT NULL,
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RolePermission_roleName_permissionName_key" ON "RolePermission"("roleName", "permissionName");
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_roleName_fkey" FOREIGN KEY ("roleName") REFERENCES "Role"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_permissionName_fkey" FOREIGN KEY ("permissionName") REFERENCES "Permission"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Built-in roles and the rights of the former hardcoded roleRights map
+INSERT INTO "Role" ("name", "description", "updatedAt") VALUES
+    ('USER', 'Default role of new users', CURRENT_TIMESTAMP),
+    ('ADMIN', 'Full access', CURRENT_TIMESTAMP);
+
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('getUsers', 'List and read users'),
+    ('manageUsers', 'Create, update and delete users'),
+    ('getRoles', 'List and read roles and permissions'),
+    ('manageRoles', 'Create, update and delete roles, attach permissions and assign roles');
+
+INSERT INTO "RolePermission" ("roleName", "permissionName") VALUES
+    ('ADMIN', 'getUsers'),
+    ('ADMIN', 'manageUsers'),
+    ('ADMIN', 'getRoles'),
+    ('ADMIN', 'manageRoles');
+
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "role" DROP DEFAULT,
+ALTER COLUMN "role" SET DATA TYPE TEXT USING "role"::TEXT,
+ALTER COLUMN "role" SET DEFAULT 'USER';
+
+-- DropEnum
+DROP TYPE "Role";
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_role_fkey" FOREIGN KEY ("role") REFERENCES "Role"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorId" TEXT,
+    "targetId" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "metadata" JSONB,
+    "isDeleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_actorId_idx" ON "AuditEvent"("actorId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_targetId_idx" ON "AuditEvent"("targetId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_type_createdAt_idx" ON "AuditEvent"("type", "createdAt");
+
+-- Support staff see the app as a given user
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('impersonateUsers', 'Act as another user with a short-lived access token');
+
+INSERT INTO "RolePermission" ("roleName", "permissionName") VALUES
+    ('ADMIN', 'impersonateUsers');
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "AuditEvent" ADD COLUMN     "diff" JSONB;
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+
+-- Admins review the audit log
+INSERT INTO "Permission" ("name", "description") VALUES
+    ('getAuditEvents', 'Query the audit log');
+
+INSERT INTO "RolePermission" ("roleName", "permissionName") VALUES
+    ('ADMIN', 'getAuditEvents');
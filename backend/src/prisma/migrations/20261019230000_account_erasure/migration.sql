@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "erasedAt" TIMESTAMP(3),
+ADD COLUMN     "erasureScheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_erasureScheduledAt_idx" ON "User"("erasureScheduledAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Token" ADD COLUMN     "failedAttempts" INTEGER NOT NULL DEFAULT 0;
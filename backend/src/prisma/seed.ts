@@ -1,4 +1,5 @@
-import { PrismaClient, Role } from '../generated/prisma/index.js';
+import { RoleName } from '../config/roles.ts';
+import { PrismaClient } from '../generated/prisma/index.js';
 import bcrypt from 'bcrypt';
 
 const prisma = new PrismaClient();
@@ -15,7 +16,7 @@ async function main() {
             email: 'admin@example.com',
             name: 'Admin',
             password: adminPassword,
-            role: Role.ADMIN,
+            role: RoleName.ADMIN,
             isEmailVerified: true
         }
     });
@@ -0,0 +1,65 @@
+import { MCPPrompt } from '../types/mcp.ts';
+import { z } from 'zod';
+
+const auditUserPrompt: MCPPrompt = {
+    id: 'user_audit',
+    name: 'Audit User Account',
+    description: 'Review the account of a user for security and consistency issues',
+    action: 'user:read',
+    argumentsSchema: z.object({
+        userId: z.string().uuid().describe('ID of the user to audit'),
+        focus: z.string().optional().describe('Concern to look into first, e.g. a suspected account takeover')
+    }),
+    fn: (args: { userId: string; focus?: string }) => [
+        {
+            role: 'user',
+            content: {
+                type: 'text',
+                text: [
+                    `Audit the account of the user ${args.userId}.`,
+                    `1. Read the user://${args.userId} resource, or call the user_get_by_id tool, to get the account.`,
+                    '2. Check that the email is verified, that two-factor authentication is enabled for admins, ' +
+                        'and that service accounts are not used as personal accounts.',
+                    '3. Check that the role matches what the user needs. If the user_get_all tool is available, ' +
+                        'compare it with the roles of the users of the same email domain.',
+                    '4. Do not change the account. Report each finding with its severity (high, medium, low) ' +
+                        'and the change you recommend, then summarize the overall state of the account.',
+                    ...(args.focus ? [`Look into this first: ${args.focus}`] : [])
+                ].join('\n')
+            }
+        }
+    ]
+};
+
+const onboardUserPrompt: MCPPrompt = {
+    id: 'user_onboard',
+    name: 'Onboard New User',
+    description: 'Create the account of a new user and check it is ready to use',
+    action: 'user:create',
+    argumentsSchema: z.object({
+        email: z.string().email().describe('Email of the new user'),
+        name: z.string().optional().describe('Name of the new user'),
+        role: z.string().optional().describe('Role of the new user, USER when omitted')
+    }),
+    fn: (args: { email: string; name?: string; role?: string }) => [
+        {
+            role: 'user',
+            content: {
+                type: 'text',
+                text: [
+                    `Onboard ${args.name ? `${args.name} <${args.email}>` : args.email} as a new user ` +
+                        `with the ${args.role ?? 'USER'} role.`,
+                    `1. Call the user_get_all tool with the email ${args.email} to make sure no account uses it yet. ` +
+                        'If one does, stop and report it instead of creating a duplicate.',
+                    '2. Call the user_create tool with a random temporary password of at least 16 characters ' +
+                        'mixing letters, numbers and symbols. Never show this password.',
+                    '3. Read the user://<id> resource of the created user and check its email, name and role.',
+                    '4. Report the ID of the account and tell the user to set their own password ' +
+                        'with the forgot password flow, then to verify their email.'
+                ].join('\n')
+            }
+        }
+    ]
+};
+
+export const userPrompts: MCPPrompt[] = [auditUserPrompt, onboardUserPrompt];
@@ -0,0 +1,57 @@
+import prisma from '../client.ts';
+import { ClientRateLimitInfo, IncrementResponse, Options, Store } from 'express-rate-limit';
+
+/**
+ * Keeps hit counters in the RateLimit table, shared by every instance
+ */
+export class PostgresRateLimitStore implements Store {
+    readonly localKeys = false;
+    private windowMs = 60 * 1000;
+
+    constructor(readonly prefix: string) {}
+
+    init(options: Options) {
+        this.windowMs = options.windowMs;
+    }
+
+    private getKey(key: string) {
+        return `${this.prefix}:${key}`;
+    }
+
+    async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+        const rateLimit = await prisma.rateLimit.findFirst({
+            where: { key: this.getKey(key), resetTime: { gt: new Date() } }
+        });
+        return rateLimit ? { totalHits: rateLimit.hits, resetTime: rateLimit.resetTime } : undefined;
+    }
+
+    async increment(key: string): Promise<IncrementResponse> {
+        // Start a new window when the previous one is over, atomically across instances
+        const [rateLimit] = await prisma.$queryRaw<{ hits: number; resetTime: Date }[]>`
+            INSERT INTO "RateLimit" ("key", "hits", "resetTime")
+            VALUES (${this.getKey(key)}, 1, now() + make_interval(secs => ${this.windowMs / 1000}))
+            ON CONFLICT ("key") DO UPDATE SET
+                "hits" = CASE WHEN "RateLimit"."resetTime" <= now() THEN 1 ELSE "RateLimit"."hits" + 1 END,
+                "resetTime" = CASE
+                    WHEN "RateLimit"."resetTime" <= now() THEN EXCLUDED."resetTime"
+                    ELSE "RateLimit"."resetTime"
+                END
+            RETURNING "hits", "resetTime"`;
+        return { totalHits: rateLimit.hits, resetTime: rateLimit.resetTime };
+    }
+
+    async decrement(key: string) {
+        await prisma.rateLimit.updateMany({
+            where: { key: this.getKey(key), hits: { gt: 0 } },
+            data: { hits: { decrement: 1 } }
+        });
+    }
+
+    async resetKey(key: string) {
+        await prisma.rateLimit.deleteMany({ where: { key: this.getKey(key) } });
+    }
+
+    async resetAll() {
+        await prisma.rateLimit.deleteMany({ where: { key: { startsWith: `${this.prefix}:` } } });
+    }
+}
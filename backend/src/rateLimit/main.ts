@@ -0,0 +1,23 @@
+import config from '../config/config.ts';
+import { PostgresRateLimitStore } from './PostgresRateLimitStore.ts';
+import { RateLimitStoreType } from './types.ts';
+import { MemoryStore, Store } from 'express-rate-limit';
+
+/**
+ * Create the hit counter store of a rate limiter, every limiter needs its own store
+ * @param {string} prefix - namespace of the limiter keys
+ * @param {Object} [params]
+ * @returns {Store}
+ */
+export function createStore(prefix: string, params?: { rateLimitStore?: RateLimitStoreType }): Store {
+    const rateLimitStore = params?.rateLimitStore ?? config.rateLimit.store;
+
+    switch (rateLimitStore) {
+        case RateLimitStoreType.Memory:
+            return new MemoryStore();
+        case RateLimitStoreType.Postgres:
+            return new PostgresRateLimitStore(prefix);
+        default:
+            throw new Error(`Unknown rate limit store: ${rateLimitStore}`);
+    }
+}
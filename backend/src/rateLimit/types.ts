@@ -0,0 +1,4 @@
+export enum RateLimitStoreType {
+    Memory = 'memory',
+    Postgres = 'postgres'
+}
@@ -0,0 +1,36 @@
+import { getInstance as getStorage, isStorageConfigured } from '../storage/index.ts';
+import { MCPResourceTemplate } from '../types/mcp.ts';
+import ApiError from '../utils/ApiError.ts';
+import httpStatus from 'http-status';
+import path from 'path';
+
+const FILE_MIME_TYPE = 'application/octet-stream';
+// Files of a user are stored under users/<userId>/, its data exports under exports/<userId>/
+const FILE_OWNER_PATTERN = /^(?:users|exports)\/([^/]+)\//;
+
+const fileResource: MCPResourceTemplate = {
+    // Reserved expansion, the keys contain slashes
+    uriTemplate: 'file://{+key}',
+    name: 'file',
+    title: 'Stored file',
+    description: 'File kept by the storage provider, by its key',
+    mimeType: FILE_MIME_TYPE,
+    action: 'file:read',
+    getPolicyInputs: ({ key }) => ({ userId: FILE_OWNER_PATTERN.exec(key)?.[1] }),
+    list: async context => {
+        if (!isStorageConfigured()) {
+            return [];
+        }
+        const keys = await getStorage().listFiles({ prefix: `users/${context.user.id}/` });
+        return keys.map(key => ({ uri: `file://${key}`, name: path.basename(key), mimeType: FILE_MIME_TYPE }));
+    },
+    read: async ({ key }) => {
+        if (!isStorageConfigured() || !(await getStorage().documentExists({ key }))) {
+            throw new ApiError(httpStatus.NOT_FOUND, 'File not found');
+        }
+        const data = await getStorage().getData({ key });
+        return { mimeType: FILE_MIME_TYPE, blob: data.toString('base64') };
+    }
+};
+
+export const fileResources: MCPResourceTemplate[] = [fileResource];
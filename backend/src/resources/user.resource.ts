@@ -0,0 +1,55 @@
+import { User } from '../generated/prisma/index.js';
+import { userService } from '../services/index.ts';
+import { MCPResourceTemplate } from '../types/mcp.ts';
+import ApiError from '../utils/ApiError.ts';
+import { onChange } from '../utils/changes.ts';
+import httpStatus from 'http-status';
+
+const USER_MIME_TYPE = 'application/json';
+
+// Fields of the user resources, credentials are left out
+const userKeys: (keyof User)[] = [
+    'id',
+    'email',
+    'name',
+    'role',
+    'isEmailVerified',
+    'isTwoFactorEnabled',
+    'isServiceAccount',
+    'createdAt',
+    'updatedAt'
+];
+
+const userResource: MCPResourceTemplate = {
+    uriTemplate: 'user://{id}',
+    name: 'user',
+    title: 'User',
+    description: 'Profile of a user, notifies its subscribers when the user changes',
+    mimeType: USER_MIME_TYPE,
+    action: 'user:read',
+    getPolicyInputs: ({ id }) => ({ userId: id }),
+    list: context => [
+        {
+            uri: `user://${context.user.id}`,
+            name: context.user.email,
+            title: context.user.name ?? context.user.email,
+            description: 'Your profile',
+            mimeType: USER_MIME_TYPE
+        }
+    ],
+    read: async ({ id }) => {
+        const user = await userService.getUserById(id, userKeys);
+        if (!user) {
+            throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+        }
+        return { mimeType: USER_MIME_TYPE, text: JSON.stringify(user) };
+    },
+    subscribe: ({ id }, notify) =>
+        onChange('User', changedId => {
+            if (changedId === id) {
+                notify();
+            }
+        })
+};
+
+export const userResources: MCPResourceTemplate[] = [userResource];
@@ -0,0 +1,15 @@
+import { RevocationCheck, RevocationStoreType } from './types.ts';
+
+export abstract class BaseRevocationStore {
+    abstract getRevocationStoreName(): RevocationStoreType;
+    // Revoke a single access token until it expires
+    abstract revokeToken(params: { jti: string; expires: Date }): Promise<void>;
+    // Revoke every access token of a user issued before now, until the newest of them expires
+    abstract revokeUserTokens(params: { userId: string; expires: Date }): Promise<void>;
+    abstract isRevoked(params: RevocationCheck): Promise<boolean>;
+
+    // Tokens carry their issue time in whole seconds, so user revocations are compared at that precision
+    protected getRevokedBefore(): number {
+        return Math.floor(Date.now() / 1000);
+    }
+}
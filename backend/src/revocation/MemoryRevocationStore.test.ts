@@ -0,0 +1,63 @@
+import { MemoryRevocationStore } from './MemoryRevocationStore.ts';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+// JWT issue times are in seconds
+const toIssuedAt = (time: number) => Math.floor(time / 1000);
+
+describe('MemoryRevocationStore', () => {
+    let store: MemoryRevocationStore;
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: NOW });
+        store = new MemoryRevocationStore();
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+    });
+
+    it('revokes a single token until it expires', async () => {
+        await store.revokeToken({ jti: 'token-1', expires: new Date(NOW + 15 * MINUTE) });
+        assert.equal(await store.isRevoked({ jti: 'token-1', userId: 'user-1', issuedAt: toIssuedAt(NOW) }), true);
+        assert.equal(await store.isRevoked({ jti: 'token-2', userId: 'user-1', issuedAt: toIssuedAt(NOW) }), false);
+        mock.timers.tick(15 * MINUTE);
+        assert.equal(await store.isRevoked({ jti: 'token-1', userId: 'user-1', issuedAt: toIssuedAt(NOW) }), false);
+    });
+
+    it('revokes the tokens of a user issued before the revocation', async () => {
+        await store.revokeUserTokens({ userId: 'user-1', expires: new Date(NOW + 15 * MINUTE) });
+        const issuedBefore = toIssuedAt(NOW - MINUTE);
+        assert.equal(await store.isRevoked({ userId: 'user-1', issuedAt: issuedBefore }), true);
+        assert.equal(await store.isRevoked({ userId: 'user-2', issuedAt: issuedBefore }), false);
+    });
+
+    it('accepts the tokens of a user issued after the revocation', async () => {
+        await store.revokeUserTokens({ userId: 'user-1', expires: new Date(NOW + 15 * MINUTE) });
+        mock.timers.tick(1000);
+        assert.equal(await store.isRevoked({ userId: 'user-1', issuedAt: toIssuedAt(Date.now()) }), false);
+    });
+
+    it('accepts a token issued in the second of the revocation', async () => {
+        // Issue times are whole seconds, a token signed right after the revocation shares its second
+        mock.timers.tick(500);
+        await store.revokeUserTokens({ userId: 'user-1', expires: new Date(NOW + 15 * MINUTE) });
+        assert.equal(await store.isRevoked({ userId: 'user-1', issuedAt: toIssuedAt(Date.now()) }), false);
+    });
+
+    it('forgets the revocation of a user once the tokens it covers expire', async () => {
+        await store.revokeUserTokens({ userId: 'user-1', expires: new Date(NOW + 15 * MINUTE) });
+        mock.timers.tick(15 * MINUTE);
+        assert.equal(await store.isRevoked({ userId: 'user-1', issuedAt: toIssuedAt(NOW - MINUTE) }), false);
+    });
+
+    it('keeps the latest revocation of a user', async () => {
+        await store.revokeUserTokens({ userId: 'user-1', expires: new Date(NOW + 15 * MINUTE) });
+        mock.timers.tick(5 * MINUTE);
+        await store.revokeUserTokens({ userId: 'user-1', expires: new Date(Date.now() + 15 * MINUTE) });
+        assert.equal(await store.isRevoked({ userId: 'user-1', issuedAt: toIssuedAt(NOW + MINUTE) }), true);
+    });
+});
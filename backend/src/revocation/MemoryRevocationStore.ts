@@ -0,0 +1,50 @@
+import { BaseRevocationStore } from './BaseRevocationStore.ts';
+import { RevocationCheck, RevocationStoreType } from './types.ts';
+
+/**
+ * Keeps revocations in process memory, only suitable for a single instance
+ */
+export class MemoryRevocationStore extends BaseRevocationStore {
+    private readonly revokedTokens = new Map<string, number>();
+    private readonly revokedUsers = new Map<string, { revokedBefore: number; expires: number }>();
+
+    getRevocationStoreName(): RevocationStoreType {
+        return RevocationStoreType.Memory;
+    }
+
+    private prune() {
+        const now = Date.now();
+        for (const [jti, expires] of this.revokedTokens) {
+            if (expires <= now) this.revokedTokens.delete(jti);
+        }
+        for (const [userId, { expires }] of this.revokedUsers) {
+            if (expires <= now) this.revokedUsers.delete(userId);
+        }
+    }
+
+    // eslint-disable-next-line require-await
+    async revokeToken(params: { jti: string; expires: Date }) {
+        const { jti, expires } = params;
+        this.prune();
+        this.revokedTokens.set(jti, expires.getTime());
+    }
+
+    // eslint-disable-next-line require-await
+    async revokeUserTokens(params: { userId: string; expires: Date }) {
+        const { userId, expires } = params;
+        this.prune();
+        this.revokedUsers.set(userId, { revokedBefore: this.getRevokedBefore(), expires: expires.getTime() });
+    }
+
+    // eslint-disable-next-line require-await
+    async isRevoked(params: RevocationCheck) {
+        const { jti, userId, issuedAt } = params;
+        const now = Date.now();
+        const tokenExpires = jti ? this.revokedTokens.get(jti) : undefined;
+        if (tokenExpires && tokenExpires > now) {
+            return true;
+        }
+        const userRevocation = this.revokedUsers.get(userId);
+        return !!userRevocation && userRevocation.expires > now && issuedAt < userRevocation.revokedBefore;
+    }
+}
@@ -0,0 +1,46 @@
+import prisma from '../client.ts';
+import { BaseRevocationStore } from './BaseRevocationStore.ts';
+import { RevocationCheck, RevocationStoreType } from './types.ts';
+
+/**
+ * Keeps revocations in the RevokedToken table, shared by every instance
+ */
+export class PostgresRevocationStore extends BaseRevocationStore {
+    getRevocationStoreName(): RevocationStoreType {
+        return RevocationStoreType.Postgres;
+    }
+
+    private async prune() {
+        await prisma.revokedToken.deleteMany({ where: { expires: { lte: new Date() } } });
+    }
+
+    async revokeToken(params: { jti: string; expires: Date }) {
+        const { jti, expires } = params;
+        await this.prune();
+        await prisma.revokedToken.upsert({
+            where: { jti },
+            create: { jti, expires },
+            update: { expires }
+        });
+    }
+
+    async revokeUserTokens(params: { userId: string; expires: Date }) {
+        const { userId, expires } = params;
+        await this.prune();
+        await prisma.revokedToken.create({
+            data: { userId, revokedBefore: new Date(this.getRevokedBefore() * 1000), expires }
+        });
+    }
+
+    async isRevoked(params: RevocationCheck) {
+        const { jti, userId, issuedAt } = params;
+        const revokedToken = await prisma.revokedToken.findFirst({
+            select: { id: true },
+            where: {
+                expires: { gt: new Date() },
+                OR: [...(jti ? [{ jti }] : []), { userId, revokedBefore: { gt: new Date(issuedAt * 1000) } }]
+            }
+        });
+        return !!revokedToken;
+    }
+}
@@ -0,0 +1,24 @@
+import config from '../config/config.ts';
+import { BaseRevocationStore } from './BaseRevocationStore.ts';
+import { MemoryRevocationStore } from './MemoryRevocationStore.ts';
+import { PostgresRevocationStore } from './PostgresRevocationStore.ts';
+import { RevocationStoreType } from './types.ts';
+
+const instanceMap = new Map<RevocationStoreType, BaseRevocationStore>();
+
+export function getInstance(params?: { revocationStore?: RevocationStoreType }): BaseRevocationStore {
+    const revocationStore = params?.revocationStore ?? config.jwt.revocationStore;
+
+    if (instanceMap.has(revocationStore)) return instanceMap.get(revocationStore)!;
+    switch (revocationStore) {
+        case RevocationStoreType.Memory:
+            instanceMap.set(RevocationStoreType.Memory, new MemoryRevocationStore());
+            break;
+        case RevocationStoreType.Postgres:
+            instanceMap.set(RevocationStoreType.Postgres, new PostgresRevocationStore());
+            break;
+        default:
+            throw new Error(`Unknown revocation store: ${revocationStore}`);
+    }
+    return instanceMap.get(revocationStore)!;
+}
@@ -0,0 +1,11 @@
+export enum RevocationStoreType {
+    Memory = 'memory',
+    Postgres = 'postgres'
+}
+
+export interface RevocationCheck {
+    jti?: string;
+    userId: string;
+    // issued at, in seconds since epoch (JWT `iat`)
+    issuedAt: number;
+}
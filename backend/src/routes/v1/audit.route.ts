@@ -0,0 +1,101 @@
+import { auditController } from '../../controllers/index.ts';
+import auth from '../../middlewares/auth.ts';
+import validate from '../../middlewares/validate.ts';
+import { auditValidation } from '../../validations/index.ts';
+import express from 'express';
+
+const router = express.Router();
+
+// Authenticated routes
+router.get('/', auth('getAuditEvents'), validate(auditValidation.getAuditEvents), auditController.getAuditEvents);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Audit
+ *   description: Audit log of authentication and user management events
+ */
+
+/**
+ * @swagger
+ * /audit-events:
+ *   get:
+ *     summary: Get audit events
+ *     description: Only admins can query the audit log. Events are returned most recent first.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Event type (ex. auth.login.failure)
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: User who performed the action
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *         description: User the action applied to
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Earliest event date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Latest event date
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *         default: 10
+ *         description: Maximum number of events
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AuditEvent'
+ *                 page:
+ *                   type: integer
+ *                   example: 1
+ *                 limit:
+ *                   type: integer
+ *                   example: 10
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalResults:
+ *                   type: integer
+ *                   example: 1
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
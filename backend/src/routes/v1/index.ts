@@ -1,8 +1,14 @@
 import config from '../../config/config.ts';
+import auditRoute from './audit.route.ts';
 import authRoute from './auth.route.ts';
 import docsRoute from './docs.route.ts';
 import mcpRoute from './mcp.route.ts';
+import oauthServerRoute from './oauthServer.route.ts';
+import organizationRoute from './organization.route.ts';
+import permissionRoute from './permission.route.ts';
+import roleRoute from './role.route.ts';
 import userRoute from './user.route.ts';
+import wellKnownRoute from './wellKnown.route.ts';
 import express from 'express';
 
 const router = express.Router();
@@ -16,9 +22,33 @@ const defaultRoutes = [
         path: '/users',
         route: userRoute
     },
+    {
+        path: '/roles',
+        route: roleRoute
+    },
+    {
+        path: '/organizations',
+        route: organizationRoute
+    },
+    {
+        path: '/permissions',
+        route: permissionRoute
+    },
+    {
+        path: '/audit-events',
+        route: auditRoute
+    },
     {
         path: '/mcp',
         route: mcpRoute
+    },
+    {
+        path: '/oauth',
+        route: oauthServerRoute
+    },
+    {
+        path: '/.well-known',
+        route: wellKnownRoute
     }
 ];
 
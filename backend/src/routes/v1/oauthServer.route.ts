@@ -0,0 +1,266 @@
+import { oauthServerController } from '../../controllers/index.ts';
+import auth from '../../middlewares/auth.ts';
+import { oauthErrorConverter } from '../../middlewares/error.ts';
+import denyImpersonation from '../../middlewares/impersonation.ts';
+import { authLimiter } from '../../middlewares/rateLimiter.ts';
+import validate from '../../middlewares/validate.ts';
+import { oauthServerValidation } from '../../validations/index.ts';
+import express from 'express';
+
+const router = express.Router();
+
+// Endpoints called by OAuth clients, errors are RFC 6749 errors
+router.post(
+    '/register',
+    authLimiter,
+    validate(oauthServerValidation.registerClient),
+    oauthServerController.registerClient,
+    oauthErrorConverter
+);
+router.get(
+    '/authorize',
+    validate(oauthServerValidation.authorizeRedirect),
+    oauthServerController.authorizeRedirect,
+    oauthErrorConverter
+);
+router.post(
+    '/token',
+    authLimiter,
+    validate(oauthServerValidation.token),
+    oauthServerController.token,
+    oauthErrorConverter
+);
+
+// Called by the app once the user approved the client
+router.post(
+    '/authorize',
+    validate(oauthServerValidation.authorize),
+    auth(),
+    denyImpersonation(),
+    oauthServerController.authorize
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: OAuth
+ *   description: OAuth 2.1 authorization server of the MCP endpoint
+ */
+
+/**
+ * @swagger
+ * /oauth/register:
+ *   post:
+ *     summary: Register an OAuth client
+ *     description: RFC 7591 dynamic client registration. Redirect URIs must use https, http on the loopback interface, or a private-use scheme. The secret of confidential clients is only returned here.
+ *     tags: [OAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - redirect_uris
+ *             properties:
+ *               redirect_uris:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               client_name:
+ *                 type: string
+ *                 maxLength: 100
+ *               token_endpoint_auth_method:
+ *                 type: string
+ *                 enum: [none, client_secret_post, client_secret_basic]
+ *                 default: client_secret_basic
+ *             example:
+ *               redirect_uris: [http://localhost:6274/oauth/callback]
+ *               client_name: MCP Inspector
+ *               token_endpoint_auth_method: none
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/OAuthClient'
+ *       "400":
+ *         description: Invalid client metadata
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthError'
+ */
+
+/**
+ * @swagger
+ * /oauth/authorize:
+ *   get:
+ *     summary: Start an authorization
+ *     description: Redirects to the app page APP_URL/oauth/authorize with the parameters and the client_name. There the user logs in and approves the client. Invalid requests from a known client are sent back to its redirect URI with an error.
+ *     tags: [OAuth]
+ *     parameters:
+ *       - in: query
+ *         name: response_type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [code]
+ *       - in: query
+ *         name: client_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: redirect_uri
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code_challenge
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: S256 PKCE code challenge
+ *       - in: query
+ *         name: code_challenge_method
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [S256]
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: resource
+ *         schema:
+ *           type: string
+ *         description: URL of the MCP endpoint (RFC 8707)
+ *     responses:
+ *       "302":
+ *         description: Redirect to the app, or to the client with an error
+ *       "400":
+ *         description: Unknown client or redirect URI
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthError'
+ *
+ *   post:
+ *     summary: Approve an authorization
+ *     description: Called by the app once the logged in user approved the client, with the parameters of the authorization page. The app then opens the returned URL, which gives the authorization code to the client. API keys and impersonation tokens cannot approve clients.
+ *     tags: [OAuth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - client_id
+ *               - redirect_uri
+ *               - code_challenge
+ *               - code_challenge_method
+ *             properties:
+ *               client_id:
+ *                 type: string
+ *               redirect_uri:
+ *                 type: string
+ *               code_challenge:
+ *                 type: string
+ *               code_challenge_method:
+ *                 type: string
+ *                 enum: [S256]
+ *               state:
+ *                 type: string
+ *               scope:
+ *                 type: string
+ *               resource:
+ *                 type: string
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 redirectUrl:
+ *                   type: string
+ *               example:
+ *                 redirectUrl: http://localhost:6274/oauth/callback?code=Xk2Jd8Lq&state=af0ifjsldkj&iss=https%3A%2F%2Fapi.example.com
+ *       "400":
+ *         description: Invalid authorization request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthError'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /oauth/token:
+ *   post:
+ *     summary: Get tokens
+ *     description: Exchanges an authorization code and its PKCE code verifier, or rotates a refresh token. Confidential clients authenticate with the Basic Authorization header or client_secret. The access tokens are only accepted by the MCP endpoint.
+ *     tags: [OAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - grant_type
+ *             properties:
+ *               grant_type:
+ *                 type: string
+ *                 enum: [authorization_code, refresh_token]
+ *               code:
+ *                 type: string
+ *               redirect_uri:
+ *                 type: string
+ *               code_verifier:
+ *                 type: string
+ *               refresh_token:
+ *                 type: string
+ *               client_id:
+ *                 type: string
+ *               client_secret:
+ *                 type: string
+ *               resource:
+ *                 type: string
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/OAuthToken'
+ *       "400":
+ *         description: Invalid grant or request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthError'
+ *       "401":
+ *         description: Client authentication failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OAuthError'
+ */
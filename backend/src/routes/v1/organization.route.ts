@@ -0,0 +1,517 @@
+import { organizationController } from '../../controllers/index.ts';
+import requireSelfScope from '../../middlewares/apiKey.ts';
+import auth from '../../middlewares/auth.ts';
+import authorize from '../../middlewares/authorize.ts';
+import validate from '../../middlewares/validate.ts';
+import { organizationValidation } from '../../validations/index.ts';
+import express from 'express';
+
+const router = express.Router();
+
+// Authenticated routes, access is checked by the organization policies (src/policies/organization.policy.ts)
+router
+    .route('/')
+    .post(
+        auth({ requireVerifiedEmail: true }),
+        requireSelfScope(),
+        validate(organizationValidation.createOrganization),
+        organizationController.createOrganization
+    )
+    .get(auth(), requireSelfScope(), organizationController.getOrganizations);
+
+router.post(
+    '/invitations/accept',
+    auth({ requireVerifiedEmail: true }),
+    requireSelfScope(),
+    validate(organizationValidation.acceptInvitation),
+    organizationController.acceptInvitation
+);
+
+router
+    .route('/:organizationId')
+    .get(
+        auth(),
+        validate(organizationValidation.getOrganization),
+        authorize('organization:read'),
+        organizationController.getOrganization
+    )
+    .patch(
+        auth(),
+        validate(organizationValidation.updateOrganization),
+        authorize('organization:update'),
+        organizationController.updateOrganization
+    )
+    .delete(
+        auth(),
+        validate(organizationValidation.deleteOrganization),
+        authorize('organization:delete'),
+        organizationController.deleteOrganization
+    );
+
+router.get(
+    '/:organizationId/members',
+    auth(),
+    validate(organizationValidation.getMembers),
+    authorize('member:list'),
+    organizationController.getMembers
+);
+
+router
+    .route('/:organizationId/members/:userId')
+    .patch(
+        auth(),
+        validate(organizationValidation.updateMember),
+        authorize('member:update'),
+        organizationController.updateMember
+    )
+    .delete(
+        auth(),
+        validate(organizationValidation.removeMember),
+        authorize('member:remove'),
+        organizationController.removeMember
+    );
+
+router
+    .route('/:organizationId/invitations')
+    .post(
+        auth({ requireVerifiedEmail: true }),
+        validate(organizationValidation.createInvitation),
+        authorize('invitation:create'),
+        organizationController.createInvitation
+    )
+    .get(
+        auth(),
+        validate(organizationValidation.getInvitations),
+        authorize('invitation:list'),
+        organizationController.getInvitations
+    );
+
+router.delete(
+    '/:organizationId/invitations/:invitationId',
+    auth(),
+    validate(organizationValidation.revokeInvitation),
+    authorize('invitation:revoke'),
+    organizationController.revokeInvitation
+);
+
+export default router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Organizations
+ *   description: Organizations, their members and invitations
+ */
+
+/**
+ * @swagger
+ * /organizations:
+ *   post:
+ *     summary: Create an organization
+ *     description: The creator becomes the owner of the organization.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *             example:
+ *               name: Acme
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get my organizations
+ *     description: Organizations the logged in user is a member of, with its role in each.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+
+/**
+ * @swagger
+ * /organizations/invitations/accept:
+ *   post:
+ *     summary: Accept an invitation
+ *     description: The invitation must have been sent to the email of the logged in user.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token of the invitation email
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /organizations/{organizationId}:
+ *   get:
+ *     summary: Get an organization
+ *     description: Members can fetch their organization. Only admins can fetch other organizations.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   patch:
+ *     summary: Update an organization
+ *     description: Owners and organization admins can update their organization.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *             example:
+ *               name: Acme Corporation
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Organization'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Delete an organization
+ *     description: Only owners can delete their organization.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/members:
+ *   get:
+ *     summary: Get the members of an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Member'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/members/{userId}:
+ *   patch:
+ *     summary: Change the role of a member
+ *     description: Owners and organization admins can change roles, only owners can grant or change the OWNER role.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Member'
+ *       "400":
+ *         description: The organization would have no owner left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Remove a member
+ *     description: Owners and organization admins can remove members, members can leave the organization.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "400":
+ *         description: The organization would have no owner left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/invitations:
+ *   post:
+ *     summary: Invite someone by email
+ *     description: Owners and organization admins can invite, only owners can invite owners.
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, ADMIN, MEMBER]
+ *                 default: MEMBER
+ *             example:
+ *               email: fake@example.com
+ *               role: MEMBER
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Invitation'
+ *       "400":
+ *         description: Already a member of the organization
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get the pending invitations of an organization
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Invitation'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /organizations/{organizationId}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Revoke a pending invitation
+ *     tags: [Organizations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: organizationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Organization id
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Invitation id
+ *     responses:
+ *       "204":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
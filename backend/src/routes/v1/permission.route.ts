@@ -0,0 +1,34 @@
+import { roleController } from '../../controllers/index.ts';
+import auth from '../../middlewares/auth.ts';
+import express from 'express';
+
+const router = express.Router();
+
+// Authenticated routes
+router.get('/', auth('getRoles'), roleController.getPermissions);
+
+export default router;
+
+/**
+ * @swagger
+ * /permissions:
+ *   get:
+ *     summary: Get all permissions
+ *     description: Only admins can retrieve the permissions that can be attached to roles.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Permission'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
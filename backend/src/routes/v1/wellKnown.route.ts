@@ -0,0 +1,70 @@
+import { oauthServerController } from '../../controllers/index.ts';
+import express from 'express';
+
+const router = express.Router();
+
+// OAuth discovery of MCP clients, the protected resource metadata is also served at the path of the MCP endpoint
+router.get(
+    ['/oauth-protected-resource', '/oauth-protected-resource/mcp'],
+    oauthServerController.getProtectedResourceMetadata
+);
+router.get('/oauth-authorization-server', oauthServerController.getAuthorizationServerMetadata);
+
+export default router;
+
+/**
+ * @swagger
+ * /.well-known/oauth-protected-resource:
+ *   get:
+ *     summary: Get the OAuth metadata of the MCP endpoint
+ *     description: RFC 9728 protected resource metadata, MCP clients find the authorization server here. Also served at /.well-known/oauth-protected-resource/mcp.
+ *     tags: [OAuth]
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 resource:
+ *                   type: string
+ *                 authorization_servers:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 bearer_methods_supported:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *               example:
+ *                 resource: https://api.example.com/mcp
+ *                 authorization_servers: [https://api.example.com]
+ *                 bearer_methods_supported: [header]
+ */
+
+/**
+ * @swagger
+ * /.well-known/oauth-authorization-server:
+ *   get:
+ *     summary: Get the OAuth authorization server metadata
+ *     description: RFC 8414 metadata, with the endpoints and the supported grant types and PKCE methods.
+ *     tags: [OAuth]
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *             example:
+ *               issuer: https://api.example.com
+ *               authorization_endpoint: https://api.example.com/oauth/authorize
+ *               token_endpoint: https://api.example.com/oauth/token
+ *               registration_endpoint: https://api.example.com/oauth/register
+ *               response_types_supported: [code]
+ *               grant_types_supported: [authorization_code, refresh_token]
+ *               code_challenge_methods_supported: [S256]
+ *               token_endpoint_auth_methods_supported: [none, client_secret_post, client_secret_basic]
+ *               authorization_response_iss_parameter_supported: true
+ */
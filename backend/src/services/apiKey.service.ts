@@ -0,0 +1,201 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import { SELF_SCOPE } from '../config/roles.ts';
+import { ApiKey, User } from '../generated/prisma/index.js';
+import { ApiKeyResponse, CreatedApiKeyResponse } from '../types/response.ts';
+import ApiError from '../utils/ApiError.ts';
+import { getRandomString } from '../utils/string.ts';
+import roleService from './role.service.ts';
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import moment from 'moment';
+
+export const API_KEY_PREFIX = 'ak_';
+const API_KEY_LENGTH = 40;
+// Characters of the key kept in clear to tell keys apart
+const API_KEY_VISIBLE_LENGTH = API_KEY_PREFIX.length + 8;
+// lastUsedAt is only written once per interval, not on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Hash an API key, keys are long random strings so a fast hash is enough and allows looking them up
+ * @param {string} key
+ * @returns {string}
+ */
+const hashApiKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+const toApiKeyResponse = ({ id, name, prefix, scopes, expires, lastUsedAt, createdAt }: ApiKey): ApiKeyResponse => ({
+    id,
+    name,
+    prefix,
+    scopes,
+    expires,
+    lastUsedAt,
+    createdAt
+});
+
+/**
+ * Generate a new API key and its stored fields
+ * @returns {{ key: string; prefix: string; hashedKey: string }}
+ */
+const generateApiKey = (): { key: string; prefix: string; hashedKey: string } => {
+    const key = `${API_KEY_PREFIX}${getRandomString('alphanumeric', API_KEY_LENGTH)}`;
+    return { key, prefix: key.slice(0, API_KEY_VISIBLE_LENGTH), hashedKey: hashApiKey(key) };
+};
+
+/**
+ * Check the scopes of a new key, they must be permissions of the role of the user or the self scope,
+ * and within the scopes of the key creating it if any
+ * @param {string} roleName
+ * @param {string[]} scopes
+ * @param {string[]} [creatorScopes]
+ * @returns {Promise<void>}
+ */
+const assertValidScopes = async (roleName: string, scopes: string[], creatorScopes?: string[]): Promise<void> => {
+    const rolePermissions = await roleService.getRolePermissions(roleName);
+    const deniedScopes = scopes.filter(
+        scope =>
+            (scope !== SELF_SCOPE && !rolePermissions.includes(scope)) ||
+            (creatorScopes && !creatorScopes.includes(scope))
+    );
+    if (deniedScopes.length) {
+        throw new ApiError(httpStatus.BAD_REQUEST, `Scopes not granted: ${deniedScopes.join(', ')}`);
+    }
+};
+
+/**
+ * Create an API key, the key itself is only returned once
+ * @param {string} userId
+ * @param {Object} params
+ * @param {string[]} [creatorScopes] - scopes of the API key making the request
+ * @returns {Promise<CreatedApiKeyResponse>}
+ */
+const createApiKey = async (
+    userId: string,
+    params: { name: string; scopes?: string[]; expires?: Date | null },
+    creatorScopes?: string[]
+): Promise<CreatedApiKeyResponse> => {
+    const user = await prisma.user.findFirst({ where: { id: userId }, select: { id: true, role: true } });
+    if (!user) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    const scopes = params.scopes ?? [];
+    await assertValidScopes(user.role, scopes, creatorScopes);
+    const { key, prefix, hashedKey } = generateApiKey();
+    const apiKey = await prisma.apiKey.create({
+        data: {
+            userId,
+            name: params.name,
+            prefix,
+            hashedKey,
+            scopes,
+            expires:
+                params.expires === undefined
+                    ? moment().add(config.apiKey.expirationDays, 'days').toDate()
+                    : params.expires
+        }
+    });
+    return { ...toApiKeyResponse(apiKey), key };
+};
+
+/**
+ * Query the API keys of a user
+ * @param {string} userId
+ * @returns {Promise<ApiKeyResponse[]>}
+ */
+const queryApiKeys = async (userId: string): Promise<ApiKeyResponse[]> => {
+    const apiKeys = await prisma.apiKey.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    return apiKeys.map(toApiKeyResponse);
+};
+
+/**
+ * Get an API key of a user, or throw
+ * A key making the request can only manage the keys whose scopes are within its own scopes
+ * @param {string} userId
+ * @param {number} apiKeyId
+ * @param {string[]} [callerScopes] - scopes of the API key making the request
+ * @returns {Promise<ApiKey>}
+ */
+const getExistingApiKey = async (userId: string, apiKeyId: number, callerScopes?: string[]): Promise<ApiKey> => {
+    const apiKey = await prisma.apiKey.findFirst({ where: { id: apiKeyId, userId } });
+    if (!apiKey) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'API key not found');
+    }
+    if (callerScopes && !apiKey.scopes.every(scope => callerScopes.includes(scope))) {
+        throw new ApiError(httpStatus.FORBIDDEN, 'Forbidden');
+    }
+    return apiKey;
+};
+
+/**
+ * Rotate an API key, the previous key stops working right away
+ * @param {string} userId
+ * @param {number} apiKeyId
+ * @param {string[]} [callerScopes] - scopes of the API key making the request
+ * @returns {Promise<CreatedApiKeyResponse>}
+ */
+const rotateApiKey = async (
+    userId: string,
+    apiKeyId: number,
+    callerScopes?: string[]
+): Promise<CreatedApiKeyResponse> => {
+    await getExistingApiKey(userId, apiKeyId, callerScopes);
+    const { key, prefix, hashedKey } = generateApiKey();
+    const apiKey = await prisma.apiKey.update({
+        where: { id: apiKeyId },
+        data: { prefix, hashedKey, lastUsedAt: null }
+    });
+    return { ...toApiKeyResponse(apiKey), key };
+};
+
+/**
+ * Revoke (soft delete) an API key
+ * @param {string} userId
+ * @param {number} apiKeyId
+ * @param {string[]} [callerScopes] - scopes of the API key making the request
+ * @returns {Promise<void>}
+ */
+const revokeApiKey = async (userId: string, apiKeyId: number, callerScopes?: string[]): Promise<void> => {
+    await getExistingApiKey(userId, apiKeyId, callerScopes);
+    await prisma.apiKey.update({ where: { id: apiKeyId }, data: { isDeleted: true } });
+};
+
+/**
+ * Verify an API key and return its user, or null when it is invalid, expired or revoked
+ * @param {string} key
+ * @returns {Promise<{ user: Pick<User, ...>; apiKey: ApiKey } | null>}
+ */
+const verifyApiKey = async (
+    key: string
+): Promise<{
+    user: Pick<User, 'id' | 'email' | 'name' | 'role' | 'isEmailVerified'>;
+    apiKey: ApiKey;
+} | null> => {
+    if (!key.startsWith(API_KEY_PREFIX)) {
+        return null;
+    }
+    const apiKey = await prisma.apiKey.findFirst({
+        where: {
+            hashedKey: hashApiKey(key),
+            OR: [{ expires: null }, { expires: { gt: new Date() } }],
+            user: { isDeleted: false }
+        },
+        include: { user: { select: { id: true, email: true, name: true, role: true, isEmailVerified: true } } }
+    });
+    if (!apiKey) {
+        return null;
+    }
+    const { user, ...apiKeyData } = apiKey;
+    if (!apiKeyData.lastUsedAt || Date.now() - apiKeyData.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+        await prisma.apiKey.update({ where: { id: apiKeyData.id }, data: { lastUsedAt: new Date() } });
+    }
+    return { user, apiKey: apiKeyData };
+};
+
+export default {
+    createApiKey,
+    queryApiKeys,
+    rotateApiKey,
+    revokeApiKey,
+    verifyApiKey
+};
@@ -0,0 +1,94 @@
+import prisma from '../client.ts';
+import { AuditEvent, Prisma } from '../generated/prisma/index.js';
+import { AuditEventFilter, AuditEventInput, AuditEventType } from '../types/audit.ts';
+import { AuditEventResponse, PaginatedResponse } from '../types/response.ts';
+import { getRequestContext } from '../utils/requestContext.ts';
+
+const toAuditEventResponse = ({
+    id,
+    type,
+    actorId,
+    targetId,
+    ipAddress,
+    userAgent,
+    diff,
+    metadata,
+    createdAt
+}: AuditEvent): AuditEventResponse => ({
+    id,
+    type,
+    actorId,
+    targetId,
+    ipAddress,
+    userAgent,
+    diff,
+    metadata,
+    createdAt
+});
+
+/**
+ * Record an audit event, the actor, IP address and user agent default to the ones of the current request
+ * @param {AuditEventType} type
+ * @param {AuditEventInput} event
+ * @returns {Promise<void>}
+ */
+const recordEvent = async (type: AuditEventType, event: AuditEventInput = {}): Promise<void> => {
+    const context = getRequestContext();
+    const metadata = context?.impersonatedUserId
+        ? { ...event.metadata, impersonatedUserId: context.impersonatedUserId }
+        : event.metadata;
+    await prisma.auditEvent.create({
+        data: {
+            type,
+            actorId: event.actorId === undefined ? context?.actorId : event.actorId,
+            targetId: event.targetId,
+            ipAddress: event.ipAddress ?? context?.ipAddress,
+            userAgent: event.userAgent ?? context?.userAgent,
+            diff: event.diff as Prisma.InputJsonValue | undefined,
+            metadata: metadata as Prisma.InputJsonValue | undefined
+        }
+    });
+};
+
+/**
+ * Query audit events, most recent first
+ * @param {AuditEventFilter} filter
+ * @param {Object} options
+ * @param {number} [options.limit] - Maximum number of results per page (default = 10)
+ * @param {number} [options.page] - Current page (default = 1)
+ * @returns {Promise<PaginatedResponse<AuditEventResponse>>}
+ */
+const queryEvents = async (
+    filter: AuditEventFilter,
+    options: { limit?: number; page?: number }
+): Promise<PaginatedResponse<AuditEventResponse>> => {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 10;
+    const where: Prisma.AuditEventWhereInput = {
+        type: filter.type,
+        actorId: filter.actorId,
+        targetId: filter.targetId,
+        createdAt: filter.from || filter.to ? { gte: filter.from, lte: filter.to } : undefined
+    };
+    const [events, totalResults] = await Promise.all([
+        prisma.auditEvent.findMany({
+            where,
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            skip: (page - 1) * limit,
+            take: limit
+        }),
+        prisma.auditEvent.count({ where })
+    ]);
+    return {
+        results: events.map(toAuditEventResponse),
+        page,
+        limit,
+        totalPages: Math.ceil(totalResults / limit),
+        totalResults
+    };
+};
+
+export default {
+    recordEvent,
+    queryEvents
+};
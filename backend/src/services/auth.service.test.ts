@@ -0,0 +1,193 @@
+import prisma from '../client.ts';
+import { Token, TokenType } from '../generated/prisma/index.js';
+import { AuditEventType } from '../types/audit.ts';
+import ApiError from '../utils/ApiError.ts';
+import { encryptPassword } from '../utils/encryption.ts';
+import pick from '../utils/pick.ts';
+import auditService from './audit.service.ts';
+import authService from './auth.service.ts';
+import lockoutService from './lockout.service.ts';
+import tokenService from './token.service.ts';
+import userService from './user.service.ts';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+const REFRESH_TOKEN = 'refresh-token';
+
+const refreshTokenData = {
+    id: 1,
+    token: REFRESH_TOKEN,
+    type: TokenType.REFRESH,
+    userId: 'user-1',
+    family: 'family-1',
+    blacklisted: false,
+    clientId: null,
+    organizationId: null,
+    deviceName: 'Laptop',
+    userAgent: 'Firefox',
+    ipAddress: '127.0.0.1'
+} as unknown as Token & { userId: string };
+
+const newTokens = {
+    access: { token: 'new-access-token', expires: new Date() },
+    refresh: { token: 'new-refresh-token', expires: new Date() }
+};
+
+/**
+ * Replace a method of a Prisma model, they are not own properties of the client for mock.method to replace
+ * @param {string} model
+ * @param {string} method
+ * @param {Function} implementation
+ */
+const stubPrisma = (
+    model: 'token',
+    method: 'findFirst' | 'updateMany',
+    implementation: (...args: any[]) => unknown
+) => {
+    const fn = mock.fn(implementation);
+    Object.assign(prisma[model], { [method]: fn });
+    return fn;
+};
+
+describe('refreshAuth', () => {
+    let findRotatedToken: ReturnType<typeof stubPrisma>;
+    let blacklistToken: ReturnType<typeof stubPrisma>;
+    let generateAuthTokens: ReturnType<typeof mock.fn>;
+    let revokeTokenFamily: ReturnType<typeof mock.fn>;
+    let recordEvent: ReturnType<typeof mock.fn>;
+
+    beforeEach(() => {
+        findRotatedToken = stubPrisma('token', 'findFirst', async () => null);
+        blacklistToken = stubPrisma('token', 'updateMany', async () => ({ count: 1 }));
+        mock.method(tokenService, 'verifyToken', async () => refreshTokenData);
+        generateAuthTokens = mock.method(tokenService, 'generateAuthTokens', async () => newTokens);
+        revokeTokenFamily = mock.method(tokenService, 'revokeTokenFamily', async () => undefined);
+        recordEvent = mock.method(auditService, 'recordEvent', async () => undefined);
+    });
+
+    afterEach(() => {
+        delete (prisma.token as Partial<typeof prisma.token>).findFirst;
+        delete (prisma.token as Partial<typeof prisma.token>).updateMany;
+        mock.restoreAll();
+    });
+
+    it('rotates the refresh token within its family', async () => {
+        const tokens = await authService.refreshAuth(REFRESH_TOKEN, { ipAddress: '10.0.0.1' });
+        assert.deepEqual(tokens, newTokens);
+        assert.deepEqual(blacklistToken.mock.calls[0].arguments[0], {
+            where: { id: refreshTokenData.id, blacklisted: false },
+            data: { blacklisted: true }
+        });
+        const [user, session] = generateAuthTokens.mock.calls[0].arguments;
+        assert.deepEqual(user, { id: 'user-1' });
+        assert.deepEqual(pick(session as object, ['family', 'ipAddress', 'userAgent']), {
+            family: 'family-1',
+            ipAddress: '10.0.0.1',
+            userAgent: 'Firefox'
+        });
+    });
+
+    it('revokes the whole family when a rotated refresh token is presented again', async () => {
+        const rotatedTokenData = { ...refreshTokenData, blacklisted: true };
+        findRotatedToken.mock.mockImplementation(async () => rotatedTokenData);
+        await assert.rejects(
+            authService.refreshAuth(REFRESH_TOKEN),
+            (error: unknown) => error instanceof ApiError && error.statusCode === 401
+        );
+        assert.deepEqual(revokeTokenFamily.mock.calls[0].arguments, [rotatedTokenData]);
+        assert.equal(recordEvent.mock.calls[0].arguments[0], AuditEventType.REFRESH_TOKEN_REUSE);
+        assert.equal(generateAuthTokens.mock.callCount(), 0);
+    });
+
+    it('issues tokens once when the same refresh token is rotated concurrently', async () => {
+        blacklistToken.mock.mockImplementation(async () => ({ count: 0 }));
+        await assert.rejects(
+            authService.refreshAuth(REFRESH_TOKEN),
+            (error: unknown) => error instanceof ApiError && error.statusCode === 401
+        );
+        assert.equal(generateAuthTokens.mock.callCount(), 0);
+    });
+
+    it('refuses an unknown or expired refresh token', async () => {
+        mock.method(tokenService, 'verifyToken', async () => {
+            throw new Error('Token not found');
+        });
+        await assert.rejects(
+            authService.refreshAuth(REFRESH_TOKEN),
+            (error: unknown) => error instanceof ApiError && error.statusCode === 401
+        );
+    });
+
+    it('refuses the refresh tokens of OAuth clients outside of their client', async () => {
+        mock.method(tokenService, 'verifyToken', async () => ({ ...refreshTokenData, clientId: 'client-1' }));
+        await assert.rejects(
+            authService.refreshAuth(REFRESH_TOKEN),
+            (error: unknown) => error instanceof ApiError && error.statusCode === 401
+        );
+        const tokens = await authService.refreshAuth(REFRESH_TOKEN, { clientId: 'client-1' });
+        assert.deepEqual(tokens, newTokens);
+    });
+});
+
+describe('loginUserWithEmailAndPassword', () => {
+    const password = 'blue-harbor-42';
+    let user: Awaited<ReturnType<typeof userService.getUserByEmail>>;
+    let recordFailedLogin: ReturnType<typeof mock.fn>;
+
+    /**
+     * Try a password login and return the error it fails with
+     * @param {string} email
+     * @param {string} attemptedPassword
+     * @returns {Promise<unknown>}
+     */
+    const getLoginError = async (email: string, attemptedPassword: string): Promise<unknown> =>
+        await authService.loginUserWithEmailAndPassword(email, attemptedPassword).then(
+            () => assert.fail('the login succeeded'),
+            (error: unknown) => error
+        );
+
+    beforeEach(async () => {
+        user = {
+            id: 'user-1',
+            email: 'user@example.com',
+            password: await encryptPassword(password),
+            isTwoFactorEnabled: false,
+            failedLoginAttempts: 0,
+            lockedUntil: null
+        } as unknown as typeof user;
+        mock.method(userService, 'getUserByEmail', async (email: string) => (email === user!.email ? user : null));
+        recordFailedLogin = mock.method(lockoutService, 'recordFailedLogin', async () => undefined);
+        mock.method(lockoutService, 'resetFailedLogins', async () => undefined);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('logs in with the password of the account', async () => {
+        const loggedInUser = await authService.loginUserWithEmailAndPassword(user!.email, password);
+        assert.equal(loggedInUser.id, 'user-1');
+        assert.equal('password' in loggedInUser, false);
+    });
+
+    it('counts a wrong password against the account', async () => {
+        const error = await getLoginError(user!.email, 'wrong-password');
+        assert.ok(error instanceof ApiError);
+        assert.equal(error.statusCode, 401);
+        assert.deepEqual(recordFailedLogin.mock.calls[0].arguments, ['user-1']);
+    });
+
+    it('answers a locked account like an unknown email', async () => {
+        Object.assign(user!, { lockedUntil: new Date(Date.now() + 60 * 1000) });
+        const lockedError = await getLoginError(user!.email, password);
+        const unknownError = await getLoginError('unknown@example.com', password);
+        assert.ok(lockedError instanceof ApiError && unknownError instanceof ApiError);
+        assert.deepEqual(
+            [lockedError.statusCode, lockedError.message],
+            [unknownError.statusCode, unknownError.message]
+        );
+        assert.equal(lockedError.message, 'Incorrect email or password');
+        // Attempts on a locked account do not extend its lockout
+        assert.equal(recordFailedLogin.mock.callCount(), 0);
+    });
+});
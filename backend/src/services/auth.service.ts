@@ -1,35 +1,232 @@
 import prisma from '../client.ts';
-import { TokenType, User } from '../generated/prisma/index.js';
+import config from '../config/config.ts';
+import logger from '../config/logger.ts';
+import { Token, TokenType, User } from '../generated/prisma/index.js';
+import { AuthorizationCodeParams, OAuthProviderName } from '../oauth/types.ts';
+import { AuditEventType } from '../types/audit.ts';
+import { MagicLinkType } from '../types/magicLink.ts';
 import { AuthTokensResponse } from '../types/response.ts';
+import { SessionMetadata } from '../types/session.ts';
 import ApiError from '../utils/ApiError.ts';
-import { encryptPassword, isPasswordMatch } from '../utils/encryption.ts';
+import { encryptPassword, isPasswordMatch, isPasswordRehashNeeded } from '../utils/encryption.ts';
 import exclude from '../utils/exclude.ts';
+import { getRandomString } from '../utils/string.ts';
+import auditService from './audit.service.ts';
+import emailService from './email.service.ts';
+import lockoutService from './lockout.service.ts';
+import mfaService from './mfa.service.ts';
+import oauthService from './oauth.service.ts';
+import organizationService from './organization.service.ts';
+import roleService from './role.service.ts';
+import sessionService from './session.service.ts';
 import tokenService from './token.service.ts';
 import userService from './user.service.ts';
 import httpStatus from 'http-status';
 
+type LoginUser = Omit<
+    User,
+    | 'password'
+    | 'twoFactorSecret'
+    | 'twoFactorLastUsedStep'
+    | 'twoFactorRecoveryCodes'
+    | 'failedLoginAttempts'
+    | 'lockedUntil'
+>;
+
+// Wrong codes entered for an email before its login code is burnt
+const MAGIC_LINK_CODE_MAX_ATTEMPTS = 5;
+
+const loginUserKeys: (keyof LoginUser)[] = [
+    'id',
+    'email',
+    'name',
+    'role',
+    'isEmailVerified',
+    'isTwoFactorEnabled',
+    'isDeleted',
+    'createdAt',
+    'updatedAt'
+];
+
 /**
  * Login with username and password
+ * Failed attempts are counted against the account, see lockoutService
  * @param {string} email
  * @param {string} password
- * @returns {Promise<Omit<User, 'password'>>}
+ * @returns {Promise<LoginUser>}
  */
-const loginUserWithEmailAndPassword = async (email: string, password: string): Promise<Omit<User, 'password'>> => {
+const loginUserWithEmailAndPassword = async (email: string, password: string): Promise<LoginUser> => {
     const user = await userService.getUserByEmail(email, [
-        'id',
-        'email',
-        'name',
+        ...loginUserKeys,
         'password',
-        'role',
-        'isEmailVerified',
-        'isDeleted',
-        'createdAt',
-        'updatedAt'
+        'failedLoginAttempts',
+        'lockedUntil'
     ]);
-    if (!user || !(await isPasswordMatch(password, user.password as string))) {
+    // A locked account gets the answer of an unknown email, a distinct error would tell the account exists
+    const isLocked = user ? lockoutService.isLocked(user) : false;
+    if (!user || isLocked || !(await isPasswordMatch(password, user.password as string))) {
+        if (user && !isLocked) {
+            await lockoutService.recordFailedLogin(user.id);
+        }
         throw new ApiError(httpStatus.UNAUTHORIZED, 'Incorrect email or password');
     }
-    return exclude(user, ['password']);
+    if (isPasswordRehashNeeded(user.password)) {
+        await prisma.user.update({ where: { id: user.id }, data: { password: await encryptPassword(password) } });
+    }
+    // With two-factor enabled the login only succeeds once the second factor is verified
+    if (!user.isTwoFactorEnabled) {
+        await lockoutService.resetFailedLogins(user);
+    }
+    return exclude(user, ['password', 'failedLoginAttempts', 'lockedUntil']);
+};
+
+/**
+ * Complete a password login with the second factor (soft delete the challenge token)
+ * @param {string} mfaToken - challenge token returned by the password login
+ * @param {string} code - TOTP or recovery code
+ * @returns {Promise<LoginUser>}
+ */
+const loginWithMfa = async (mfaToken: string, code: string): Promise<LoginUser> => {
+    let mfaTokenData: Token & { userId: string };
+    try {
+        mfaTokenData = await tokenService.verifyToken(mfaToken, TokenType.MFA);
+    } catch (error) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+    const user = await userService.getUserById(mfaTokenData.userId, [
+        ...loginUserKeys,
+        'failedLoginAttempts',
+        'lockedUntil'
+    ]);
+    if (!user) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+    lockoutService.assertNotLocked(user);
+    try {
+        await mfaService.verifyTwoFactorCode(user.id, code);
+    } catch (error) {
+        await lockoutService.recordFailedLogin(user.id);
+        throw error;
+    }
+    await prisma.token.update({ where: { id: mfaTokenData.id }, data: { isDeleted: true } });
+    await lockoutService.resetFailedLogins(user);
+    return exclude(user, ['failedLoginAttempts', 'lockedUntil']);
+};
+
+/**
+ * Send a magic link login token or code by email
+ * Unknown emails are silently ignored unless magic link signup is enabled
+ * @param {string} email
+ * @param {MagicLinkType} type
+ * @returns {Promise<void>}
+ */
+const sendMagicLink = async (email: string, type: MagicLinkType): Promise<void> => {
+    const user = await userService.getUserByEmail(email, ['id']);
+    if (!user && !config.magicLink.signup) {
+        return;
+    }
+    // Only the latest link or code of an email is valid, older codes would add guesses
+    await prisma.token.updateMany({ where: { email, type: TokenType.MAGIC_LINK }, data: { isDeleted: true } });
+    const magicLinkToken = await tokenService.generateMagicLinkToken(email, type, user?.id);
+    if (type === MagicLinkType.CODE) {
+        await emailService.sendLoginCodeEmail(email, magicLinkToken);
+    } else {
+        await emailService.sendMagicLinkEmail(email, magicLinkToken);
+    }
+};
+
+/**
+ * Login with a magic link token, or an email and code (soft delete magic link tokens)
+ * The account is created on first use when magic link signup is enabled
+ * @param {Object} params
+ * @returns {Promise<LoginUser>}
+ */
+const loginWithMagicLink = async (params: { token?: string; email?: string; code?: string }): Promise<LoginUser> => {
+    const { token, email, code } = params;
+    // Login codes are short enough to guess, failed codes count against the account
+    const codeUser = email
+        ? await userService.getUserByEmail(email, ['id', 'failedLoginAttempts', 'lockedUntil'])
+        : null;
+    if (codeUser) {
+        lockoutService.assertNotLocked(codeUser);
+    }
+    const magicLinkTokenData = await prisma.token.findFirst({
+        where: {
+            ...(token ? { token } : { email, token: code }),
+            type: TokenType.MAGIC_LINK,
+            blacklisted: false,
+            expires: { gt: new Date() }
+        }
+    });
+    if (!magicLinkTokenData?.email) {
+        if (codeUser) {
+            await lockoutService.recordFailedLogin(codeUser.id);
+        }
+        if (email) {
+            // Emails without an account have no lockout, the code of the email is burnt after a few wrong guesses
+            await prisma.token.updateMany({
+                where: { email, type: TokenType.MAGIC_LINK },
+                data: { failedAttempts: { increment: 1 } }
+            });
+            await prisma.token.updateMany({
+                where: { email, type: TokenType.MAGIC_LINK, failedAttempts: { gte: MAGIC_LINK_CODE_MAX_ATTEMPTS } },
+                data: { isDeleted: true }
+            });
+        }
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login link');
+    }
+    // Only one concurrent login can consume the token
+    const { count } = await prisma.token.updateMany({
+        where: { id: magicLinkTokenData.id },
+        data: { isDeleted: true }
+    });
+    if (!count) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login link');
+    }
+    await prisma.token.updateMany({
+        where: { email: magicLinkTokenData.email, type: TokenType.MAGIC_LINK },
+        data: { isDeleted: true }
+    });
+
+    let user = await userService.getUserByEmail(magicLinkTokenData.email, loginUserKeys);
+    if (!user) {
+        if (!config.magicLink.signup) {
+            throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login link');
+        }
+        // The account has no usable password until one is set with forgot password
+        const { id } = await userService.createUser(magicLinkTokenData.email, getRandomString('alphanumeric', 32));
+        // Opening the link proves ownership of the email
+        await userService.updateUserById(id, { isEmailVerified: true });
+    } else if (!user.isEmailVerified) {
+        // The unverified account may have been registered by someone else to take over the account
+        await userService.claimUnverifiedUser(user.id);
+    }
+    if (!user?.isEmailVerified) {
+        user = await userService.getUserByEmail(magicLinkTokenData.email, loginUserKeys);
+    }
+    if (!user) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid or expired login link');
+    }
+    // With two-factor enabled the login only succeeds once the second factor is verified
+    if (codeUser && !user.isTwoFactorEnabled) {
+        await lockoutService.resetFailedLogins(codeUser);
+    }
+    return user;
+};
+
+/**
+ * Login with the authorization code of an OAuth provider
+ * @param {OAuthProviderName} provider
+ * @param {AuthorizationCodeParams} params
+ * @returns {Promise<LoginUser>}
+ */
+const loginWithOAuth = async (provider: OAuthProviderName, params: AuthorizationCodeParams): Promise<LoginUser> => {
+    const userId = await oauthService.loginWithAuthorizationCode(provider, params);
+    const user = await userService.getUserById(userId, loginUserKeys);
+    if (!user) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'OAuth login failed');
+    }
+    return user;
 };
 
 /**
@@ -53,43 +250,127 @@ const logout = async (refreshToken: string): Promise<void> => {
 };
 
 /**
- * Refresh auth tokens (soft delete old token)
+ * Refresh auth tokens (blacklist old token)
+ * Presenting an already rotated refresh token revokes its whole token family
  * @param {string} refreshToken
+ * @param {SessionMetadata} [session] - device details of the refresh request, the organization to switch to
+ * and the OAuth client refreshing the token
  * @returns {Promise<AuthTokensResponse>}
  */
-const refreshAuth = async (refreshToken: string): Promise<AuthTokensResponse> => {
+const refreshAuth = async (refreshToken: string, session: SessionMetadata = {}): Promise<AuthTokensResponse> => {
+    const rotatedTokenData = await prisma.token.findFirst({
+        where: { token: refreshToken, type: TokenType.REFRESH, blacklisted: true }
+    });
+    if (rotatedTokenData) {
+        logger.warn(`Refresh token reuse detected for user ${rotatedTokenData.userId}, revoking token family`);
+        await tokenService.revokeTokenFamily(rotatedTokenData);
+        await auditService.recordEvent(AuditEventType.REFRESH_TOKEN_REUSE, {
+            actorId: rotatedTokenData.userId,
+            targetId: rotatedTokenData.userId,
+            metadata: { family: rotatedTokenData.family }
+        });
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+    let refreshTokenData: Token & { userId: string };
     try {
-        const refreshTokenData = await tokenService.verifyToken(refreshToken, TokenType.REFRESH);
-        const { userId } = refreshTokenData;
-        await prisma.token.update({ where: { id: refreshTokenData.id }, data: { isDeleted: true } });
-        return tokenService.generateAuthTokens({ id: userId });
+        refreshTokenData = await tokenService.verifyToken(refreshToken, TokenType.REFRESH);
     } catch (error) {
         throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
     }
+    const { userId, family, deviceName, userAgent, ipAddress, clientId } = refreshTokenData;
+    // Refresh tokens of OAuth clients are only refreshed by their client at the OAuth token endpoint
+    if ((clientId ?? undefined) !== session.clientId) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+
+    // The session keeps its organization unless another one is requested
+    const organizationId =
+        session.organizationId === undefined ? refreshTokenData.organizationId : session.organizationId;
+    if (organizationId) {
+        const user = await userService.getUserById(userId, ['id', 'role']);
+        if (!user) {
+            throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+        }
+        await organizationService.resolveTenant(user, organizationId);
+    }
+
+    const { count } = await prisma.token.updateMany({
+        where: { id: refreshTokenData.id, blacklisted: false },
+        data: { blacklisted: true }
+    });
+    if (!count) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate');
+    }
+    const tokens = await tokenService.generateAuthTokens(
+        { id: userId },
+        {
+            family: family ?? undefined,
+            deviceName: deviceName ?? undefined,
+            userAgent: session.userAgent ?? userAgent ?? undefined,
+            ipAddress: session.ipAddress ?? ipAddress ?? undefined,
+            lastUsedAt: new Date(),
+            organizationId,
+            clientId: clientId ?? undefined
+        }
+    );
+    await auditService.recordEvent(AuditEventType.TOKEN_REFRESH, {
+        actorId: userId,
+        targetId: userId,
+        metadata: { organizationId }
+    });
+    return tokens;
+};
+
+/**
+ * Start impersonating a user, users who can impersonate cannot be impersonated
+ * @param {string} actorId - impersonating user
+ * @param {string} userId - impersonated user
+ * @returns {Promise<{ user: Pick<User, 'id' | 'email' | 'name' | 'role'>; tokens: AuthTokensResponse }>}
+ */
+const impersonateUser = async (
+    actorId: string,
+    userId: string
+): Promise<{ user: Pick<User, 'id' | 'email' | 'name' | 'role'>; tokens: AuthTokensResponse }> => {
+    if (actorId === userId) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Cannot impersonate yourself');
+    }
+    const user = await userService.getUserById(userId, ['id', 'email', 'name', 'role']);
+    if (!user) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    if (await roleService.hasPermissions(user.role, ['impersonateUsers'])) {
+        throw new ApiError(httpStatus.FORBIDDEN, 'Cannot impersonate a user who can impersonate');
+    }
+    return { user, tokens: { access: tokenService.generateImpersonationToken(user.id, actorId) } };
 };
 
 /**
- * Reset password (soft delete reset tokens)
+ * Reset password (soft delete reset tokens), every session is revoked
  * @param {string} resetPasswordToken
  * @param {string} newPassword
  * @returns {Promise<void>}
  */
 const resetPassword = async (resetPasswordToken: string, newPassword: string): Promise<void> => {
+    let userId: string;
     try {
         const resetPasswordTokenData = await tokenService.verifyToken(resetPasswordToken, TokenType.RESET_PASSWORD);
-        const user = await userService.getUserById(resetPasswordTokenData.userId);
+        const user = await userService.getUserById(resetPasswordTokenData.userId, ['id']);
         if (!user) {
             throw new Error();
         }
-        const encryptedPassword = await encryptPassword(newPassword);
-        await userService.updateUserById(user.id, { password: encryptedPassword });
-        await prisma.token.updateMany({
-            where: { userId: user.id, type: TokenType.RESET_PASSWORD },
-            data: { isDeleted: true }
-        });
+        userId = user.id;
     } catch (error) {
         throw new ApiError(httpStatus.UNAUTHORIZED, 'Password reset failed');
     }
+    // Password policy errors are reported as is, the token stays valid for another try
+    await userService.updateUserById(userId, { password: newPassword });
+    await prisma.token.updateMany({
+        where: { userId, type: TokenType.RESET_PASSWORD },
+        data: { isDeleted: true }
+    });
+    // The refresh tokens would otherwise keep getting new access tokens for whoever holds them
+    await sessionService.revokeSessions(userId);
+    await auditService.recordEvent(AuditEventType.PASSWORD_RESET, { actorId: userId, targetId: userId });
 };
 
 /**
@@ -98,24 +379,121 @@ const resetPassword = async (resetPasswordToken: string, newPassword: string): P
  * @returns {Promise<void>}
  */
 const verifyEmail = async (verifyEmailToken: string): Promise<void> => {
+    let userId: string;
     try {
         const verifyEmailTokenData = await tokenService.verifyToken(verifyEmailToken, TokenType.VERIFY_EMAIL);
+        userId = verifyEmailTokenData.userId;
         await prisma.token.updateMany({
-            where: { userId: verifyEmailTokenData.userId, type: TokenType.VERIFY_EMAIL },
+            where: { userId, type: TokenType.VERIFY_EMAIL },
             data: { isDeleted: true }
         });
-        await userService.updateUserById(verifyEmailTokenData.userId, { isEmailVerified: true });
+        await userService.updateUserById(userId, { isEmailVerified: true });
     } catch (error) {
         throw new ApiError(httpStatus.UNAUTHORIZED, 'Email verification failed');
     }
+    await auditService.recordEvent(AuditEventType.EMAIL_VERIFICATION, { actorId: userId, targetId: userId });
+};
+
+/**
+ * Check the current password of a user before a sensitive change of their account
+ * @param {string} userId
+ * @param {string} password
+ * @returns {Promise<void>}
+ */
+const assertPasswordMatch = async (userId: string, password: string): Promise<void> => {
+    const user = await userService.getUserById(userId, ['password']);
+    if (!user || !(await isPasswordMatch(password, user.password))) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Incorrect password');
+    }
+};
+
+/**
+ * Change the password of a user, every other session is revoked
+ * @param {string} userId
+ * @param {string} currentPassword
+ * @param {string} newPassword
+ * @param {string} [currentRefreshToken] - refresh token of the session kept, every session is revoked without it
+ * @returns {Promise<void>}
+ */
+const changePassword = async (
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentRefreshToken?: string
+): Promise<void> => {
+    await assertPasswordMatch(userId, currentPassword);
+    if (currentRefreshToken) {
+        const session = await tokenService.verifyToken(currentRefreshToken, TokenType.REFRESH).catch(() => null);
+        if (session?.userId !== userId) {
+            throw new ApiError(httpStatus.NOT_FOUND, 'Session not found');
+        }
+    }
+    await userService.updateUserById(userId, { password: newPassword });
+    await sessionService.revokeSessions(userId, currentRefreshToken);
+    await auditService.recordEvent(AuditEventType.PASSWORD_CHANGE, { targetId: userId });
+};
+
+/**
+ * Start changing the email of a user, the email only changes once the link sent to the new email is opened
+ * @param {string} userId
+ * @param {string} email - new email
+ * @param {string} password - current password
+ * @returns {Promise<void>}
+ */
+const requestEmailChange = async (userId: string, email: string, password: string): Promise<void> => {
+    await assertPasswordMatch(userId, password);
+    if (await userService.isEmailTaken(email)) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Email already taken');
+    }
+    // Only the latest requested email can be confirmed
+    await prisma.token.updateMany({
+        where: { userId, type: TokenType.CHANGE_EMAIL },
+        data: { isDeleted: true }
+    });
+    const changeEmailToken = await tokenService.generateChangeEmailToken({ id: userId }, email);
+    await emailService.sendChangeEmailEmail(email, changeEmailToken);
+};
+
+/**
+ * Confirm a change of email, the new email is verified (soft delete change email tokens)
+ * @param {string} changeEmailToken
+ * @returns {Promise<void>}
+ */
+const confirmEmailChange = async (changeEmailToken: string): Promise<void> => {
+    let changeEmailTokenData: Token & { userId: string };
+    try {
+        changeEmailTokenData = await tokenService.verifyToken(changeEmailToken, TokenType.CHANGE_EMAIL);
+    } catch (error) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Email change failed');
+    }
+    const { userId, email } = changeEmailTokenData;
+    if (!email) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Email change failed');
+    }
+    await prisma.token.updateMany({
+        where: { userId, type: { in: [TokenType.CHANGE_EMAIL, TokenType.VERIFY_EMAIL] } },
+        data: { isDeleted: true }
+    });
+    // Fails when the email was taken since the request
+    await userService.updateUserById(userId, { email, isEmailVerified: true });
+    await auditService.recordEvent(AuditEventType.EMAIL_CHANGE, { actorId: userId, targetId: userId });
 };
 
 export default {
     loginUserWithEmailAndPassword,
+    loginWithMfa,
+    sendMagicLink,
+    loginWithMagicLink,
+    loginWithOAuth,
     isPasswordMatch,
     encryptPassword,
     logout,
     refreshAuth,
+    impersonateUser,
     resetPassword,
-    verifyEmail
+    verifyEmail,
+    assertPasswordMatch,
+    changePassword,
+    requestEmailChange,
+    confirmEmailChange
 };
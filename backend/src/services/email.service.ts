@@ -0,0 +1,160 @@
+import config from '../config/config.ts';
+import logger from '../config/logger.ts';
+import { EmailMessage, EmailTransport } from '../types/email.ts';
+import fs from 'fs/promises';
+import nodemailer, { Transporter } from 'nodemailer';
+import path from 'path';
+import { v4 as uuid } from 'uuid';
+
+let transporter: Transporter | undefined;
+
+/**
+ * Get the nodemailer transporter for the configured email transport.
+ * The outbox and console transports render messages as JSON instead of delivering them.
+ * @returns {Transporter}
+ */
+const getTransporter = (): Transporter => {
+    if (!transporter) {
+        transporter =
+            config.email.transport === EmailTransport.SMTP
+                ? nodemailer.createTransport(config.email.smtp)
+                : nodemailer.createTransport({ jsonTransport: true });
+    }
+    return transporter;
+};
+
+/**
+ * Write a rendered email to the outbox directory
+ * @param {string} message - JSON rendered message
+ * @returns {Promise<string>} path of the written file
+ */
+const writeToOutbox = async (message: string): Promise<string> => {
+    const outboxDir = path.resolve(process.cwd(), config.email.outboxDir);
+    await fs.mkdir(outboxDir, { recursive: true });
+    const filePath = path.join(outboxDir, `${Date.now()}-${uuid()}.json`);
+    await fs.writeFile(filePath, message);
+    return filePath;
+};
+
+/**
+ * Send an email
+ * @param {EmailMessage} message
+ * @returns {Promise<void>}
+ */
+const sendEmail = async ({ to, subject, text }: EmailMessage): Promise<void> => {
+    const info = await getTransporter().sendMail({ from: config.email.from, to, subject, text });
+    switch (config.email.transport) {
+        case EmailTransport.OUTBOX: {
+            const filePath = await writeToOutbox(info.message);
+            logger.debug(`Email to ${to} written to ${filePath}`);
+            break;
+        }
+        case EmailTransport.CONSOLE:
+            // The body holds the tokens of the links, only logged at debug level
+            logger.info(`Email to ${to}: ${subject}`);
+            logger.debug(`Email to ${to}: ${info.message}`);
+            break;
+        default:
+            break;
+    }
+};
+
+/**
+ * Send reset password email
+ * @param {string} to
+ * @param {string} token
+ * @returns {Promise<void>}
+ */
+const sendResetPasswordEmail = async (to: string, token: string): Promise<void> => {
+    const subject = 'Reset password';
+    const resetPasswordUrl = `${config.appUrl}/reset-password?token=${token}`;
+    const text = `Dear user,
+To reset your password, click on this link: ${resetPasswordUrl}
+If you did not request any password resets, then ignore this email.`;
+    await sendEmail({ to, subject, text });
+};
+
+/**
+ * Send verification email
+ * @param {string} to
+ * @param {string} token
+ * @returns {Promise<void>}
+ */
+const sendVerificationEmail = async (to: string, token: string): Promise<void> => {
+    const subject = 'Email Verification';
+    const verificationEmailUrl = `${config.appUrl}/verify-email?token=${token}`;
+    const text = `Dear user,
+To verify your email, click on this link: ${verificationEmailUrl}
+If you did not create an account, then ignore this email.`;
+    await sendEmail({ to, subject, text });
+};
+
+/**
+ * Send the email confirming a change of email, to the new email
+ * @param {string} to
+ * @param {string} token
+ * @returns {Promise<void>}
+ */
+const sendChangeEmailEmail = async (to: string, token: string): Promise<void> => {
+    const subject = 'Confirm your new email';
+    const changeEmailUrl = `${config.appUrl}/change-email?token=${token}`;
+    const text = `Dear user,
+To use this email for your account, click on this link: ${changeEmailUrl}
+If you did not ask to change your email, then ignore this email.`;
+    await sendEmail({ to, subject, text });
+};
+
+/**
+ * Send magic link login email
+ * @param {string} to
+ * @param {string} token
+ * @returns {Promise<void>}
+ */
+const sendMagicLinkEmail = async (to: string, token: string): Promise<void> => {
+    const subject = 'Your login link';
+    const magicLinkUrl = `${config.appUrl}/magic-link?token=${token}`;
+    const text = `Dear user,
+To log in, click on this link: ${magicLinkUrl}
+If you did not try to log in, then ignore this email.`;
+    await sendEmail({ to, subject, text });
+};
+
+/**
+ * Send login code email
+ * @param {string} to
+ * @param {string} code
+ * @returns {Promise<void>}
+ */
+const sendLoginCodeEmail = async (to: string, code: string): Promise<void> => {
+    const subject = 'Your login code';
+    const text = `Dear user,
+Your login code is: ${code}
+If you did not try to log in, then ignore this email.`;
+    await sendEmail({ to, subject, text });
+};
+
+/**
+ * Send organization invitation email
+ * @param {string} to
+ * @param {string} organizationName
+ * @param {string} token
+ * @returns {Promise<void>}
+ */
+const sendInvitationEmail = async (to: string, organizationName: string, token: string): Promise<void> => {
+    const subject = `You are invited to join ${organizationName}`;
+    const invitationUrl = `${config.appUrl}/invitations?token=${token}`;
+    const text = `Dear user,
+You have been invited to join ${organizationName}, to accept the invitation click on this link: ${invitationUrl}
+If you were not expecting this invitation, then ignore this email.`;
+    await sendEmail({ to, subject, text });
+};
+
+export default {
+    sendEmail,
+    sendResetPasswordEmail,
+    sendVerificationEmail,
+    sendChangeEmailEmail,
+    sendMagicLinkEmail,
+    sendLoginCodeEmail,
+    sendInvitationEmail
+};
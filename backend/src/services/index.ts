@@ -1,3 +1,14 @@
 export { default as authService } from './auth.service.ts';
 export { default as userService } from './user.service.ts';
 export { default as tokenService } from './token.service.ts';
+export { default as emailService } from './email.service.ts';
+export { default as sessionService } from './session.service.ts';
+export { default as mfaService } from './mfa.service.ts';
+export { default as oauthService } from './oauth.service.ts';
+export { default as lockoutService } from './lockout.service.ts';
+export { default as roleService } from './role.service.ts';
+export { default as organizationService } from './organization.service.ts';
+export { default as apiKeyService } from './apiKey.service.ts';
+export { default as auditService } from './audit.service.ts';
+export { default as privacyService } from './privacy.service.ts';
+export { default as oauthServerService } from './oauthServer.service.ts';
@@ -0,0 +1,88 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import ApiError from '../utils/ApiError.ts';
+import lockoutService from './lockout.service.ts';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+describe('lockoutService', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: NOW });
+    });
+
+    afterEach(() => {
+        delete (prisma.user as Partial<typeof prisma.user>).update;
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    describe('recordFailedLogin', () => {
+        /**
+         * Record a failed login of an account that had failedLoginAttempts - 1 failed logins
+         * @param {number} failedLoginAttempts
+         * @returns {Promise<Date | undefined>} the lockedUntil set on the account
+         */
+        const recordFailedLogin = async (failedLoginAttempts: number): Promise<Date | undefined> => {
+            const update = mock.fn(async (args: { data: { lockedUntil?: Date } }) => ({ failedLoginAttempts }));
+            // Prisma model methods are not own properties of the client for mock.method to replace
+            Object.assign(prisma.user, { update });
+            await lockoutService.recordFailedLogin('user-1');
+            return update.mock.calls[1]?.arguments[0].data.lockedUntil;
+        };
+
+        it('does not delay the first retries', async () => {
+            assert.equal(await recordFailedLogin(config.lockout.delayAfterAttempts - 1), undefined);
+        });
+
+        it('delays the retries exponentially past delayAfterAttempts', async () => {
+            const { delayAfterAttempts } = config.lockout;
+            assert.equal((await recordFailedLogin(delayAfterAttempts))?.getTime(), NOW + 1000);
+            assert.equal((await recordFailedLogin(delayAfterAttempts + 1))?.getTime(), NOW + 2000);
+            assert.equal((await recordFailedLogin(delayAfterAttempts + 2))?.getTime(), NOW + 4000);
+        });
+
+        it('locks the account past maxAttempts', async () => {
+            const { maxAttempts, durationMinutes } = config.lockout;
+            const lockedUntil = await recordFailedLogin(maxAttempts);
+            assert.equal(lockedUntil?.getTime(), NOW + durationMinutes * 60 * 1000);
+        });
+    });
+
+    describe('assertNotLocked', () => {
+        it('rejects a locked account until its lockout ends', () => {
+            const user = { lockedUntil: new Date(NOW + 1000) };
+            assert.equal(lockoutService.isLocked(user), true);
+            assert.throws(
+                () => lockoutService.assertNotLocked(user),
+                (error: unknown) => error instanceof ApiError && error.statusCode === 429
+            );
+            mock.timers.tick(1000);
+            assert.equal(lockoutService.isLocked(user), false);
+            assert.doesNotThrow(() => lockoutService.assertNotLocked(user));
+        });
+
+        it('accepts an account that was never locked', () => {
+            assert.equal(lockoutService.isLocked({ lockedUntil: null }), false);
+        });
+    });
+
+    describe('resetFailedLogins', () => {
+        it('clears the failed logins and the lockout', async () => {
+            const update = mock.fn(async () => ({}));
+            Object.assign(prisma.user, { update });
+            await lockoutService.resetFailedLogins({ id: 'user-1', failedLoginAttempts: 2 });
+            assert.deepEqual(update.mock.calls[0].arguments, [
+                { where: { id: 'user-1' }, data: { failedLoginAttempts: 0, lockedUntil: null } }
+            ]);
+        });
+
+        it('skips the accounts without failed logins', async () => {
+            const update = mock.fn(async () => ({}));
+            Object.assign(prisma.user, { update });
+            await lockoutService.resetFailedLogins({ id: 'user-1', failedLoginAttempts: 0 });
+            assert.equal(update.mock.callCount(), 0);
+        });
+    });
+});
@@ -0,0 +1,87 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import logger from '../config/logger.ts';
+import { User } from '../generated/prisma/index.js';
+import ApiError from '../utils/ApiError.ts';
+import httpStatus from 'http-status';
+import moment, { Moment } from 'moment';
+
+/**
+ * Check whether an account is locked or a retry delay is pending
+ * @param {Pick<User, 'lockedUntil'>} user
+ * @returns {boolean}
+ */
+const isLocked = (user: Pick<User, 'lockedUntil'>): boolean =>
+    Boolean(user.lockedUntil && user.lockedUntil > new Date());
+
+/**
+ * Reject the login of an account while it is locked or a retry delay is pending
+ * @param {Pick<User, 'lockedUntil'>} user
+ */
+const assertNotLocked = (user: Pick<User, 'lockedUntil'>): void => {
+    if (isLocked(user)) {
+        throw new ApiError(httpStatus.TOO_MANY_REQUESTS, 'Too many failed login attempts, try again later');
+    }
+};
+
+/**
+ * Record a failed login of an account.
+ * Past delayAfterAttempts every retry is delayed (1s, 2s, 4s, ...) and past maxAttempts the account is locked.
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const recordFailedLogin = async (userId: string): Promise<void> => {
+    const { failedLoginAttempts } = await prisma.user.update({
+        where: { id: userId },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true }
+    });
+    const { delayAfterAttempts, maxAttempts, durationMinutes } = config.lockout;
+    let lockedUntil: Moment | null = null;
+    if (failedLoginAttempts >= maxAttempts) {
+        logger.warn(`Account ${userId} locked after ${failedLoginAttempts} failed login attempts`);
+        lockedUntil = moment().add(durationMinutes, 'minutes');
+    } else if (failedLoginAttempts >= delayAfterAttempts) {
+        lockedUntil = moment().add(2 ** (failedLoginAttempts - delayAfterAttempts), 'seconds');
+    }
+    if (lockedUntil) {
+        await prisma.user.update({ where: { id: userId }, data: { lockedUntil: lockedUntil.toDate() } });
+    }
+};
+
+/**
+ * Clear the failed logins of an account after a successful login
+ * @param {Pick<User, 'id' | 'failedLoginAttempts'>} user
+ * @returns {Promise<void>}
+ */
+const resetFailedLogins = async (user: Pick<User, 'id' | 'failedLoginAttempts'>): Promise<void> => {
+    if (user.failedLoginAttempts > 0) {
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { failedLoginAttempts: 0, lockedUntil: null }
+        });
+    }
+};
+
+/**
+ * Unlock an account before its lockout expires
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const unlockUser = async (userId: string): Promise<void> => {
+    const { count } = await prisma.user.updateMany({
+        where: { id: userId },
+        data: { failedLoginAttempts: 0, lockedUntil: null }
+    });
+    if (!count) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+};
+
+export default {
+    isLocked,
+    assertNotLocked,
+    recordFailedLogin,
+    resetFailedLogins,
+    unlockUser
+};
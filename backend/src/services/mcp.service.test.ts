@@ -0,0 +1,116 @@
+import { MCPTool, MCPToolContext } from '../types/mcp.ts';
+import { registerMCPTools } from './mcp.service.ts';
+import roleService from './role.service.ts';
+import { Server } from '@modelcontextprotocol/sdk/server';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { z } from 'zod';
+
+type RequestHandler = (request: { params: Record<string, unknown> }) => Promise<any>;
+
+const rolePermissions: Record<string, string[]> = { ADMIN: ['getUsers', 'manageUsers'], USER: [] };
+
+const updateUserTool: MCPTool = {
+    id: 'user_update',
+    name: 'Update a user',
+    description: 'Update a user',
+    inputSchema: z.object({ userId: z.string(), name: z.string().optional(), email: z.string().optional() }),
+    action: 'user:update',
+    fn: (inputs: { userId: string }) => ({ id: inputs.userId })
+};
+
+const listUsersTool: MCPTool = {
+    id: 'user_get_all',
+    name: 'Get all users',
+    description: 'Get all users',
+    inputSchema: z.object({}),
+    requiredRights: ['getUsers'],
+    fn: () => ({ results: [] })
+};
+
+/**
+ * Register the tools on a stand-in of the MCP server, keeping the request handlers to call them directly
+ * @param {MCPToolContext['subject']} subject
+ * @returns {{ listTools: () => Promise<any>; callTool: (name: string, args: Record<string, unknown>) => Promise<any> }}
+ */
+const registerTools = (subject: MCPToolContext['subject']) => {
+    const handlers = new Map<unknown, RequestHandler>();
+    const server = {
+        setRequestHandler: (schema: unknown, handler: RequestHandler) => handlers.set(schema, handler)
+    } as unknown as Server;
+    const context = {
+        user: { id: subject.id, email: 'user@example.com', name: null, role: subject.role, isEmailVerified: true },
+        subject
+    };
+    registerMCPTools({ server, tools: [updateUserTool, listUsersTool], context });
+    return {
+        listTools: async () => await handlers.get(ListToolsRequestSchema)!({ params: {} }),
+        callTool: async (name: string, args: Record<string, unknown>) =>
+            await handlers.get(CallToolRequestSchema)!({ params: { name, arguments: args } })
+    };
+};
+
+describe('MCP tools', () => {
+    beforeEach(() => {
+        mock.method(roleService, 'hasPermissions', async (role: string, rights: string[]) =>
+            rights.every(right => rolePermissions[role]?.includes(right))
+        );
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it('lists the tools the subject may call', async () => {
+        const { listTools } = registerTools({ id: 'user', role: 'USER' });
+        const { tools } = await listTools();
+        assert.deepEqual(
+            tools.map((tool: { name: string }) => tool.name),
+            ['user_update']
+        );
+    });
+
+    it('hides the tools of owner rules from API keys without the self scope', async () => {
+        const { listTools } = registerTools({ id: 'user', role: 'USER', scopes: [] });
+        const { tools } = await listTools();
+        assert.deepEqual(tools, []);
+    });
+
+    it('checks the policy with the owner from the tool inputs', async () => {
+        const { callTool } = registerTools({ id: 'user', role: 'USER' });
+        const allowed = await callTool('user_update', { userId: 'user', name: 'New name' });
+        assert.equal(allowed.isError, undefined);
+        assert.deepEqual(JSON.parse(allowed.content[0].text), { id: 'user' });
+        const denied = await callTool('user_update', { userId: 'other', name: 'New name' });
+        assert.equal(denied.isError, true);
+        assert.deepEqual(JSON.parse(denied.content[0].text), {
+            error: 'Forbidden',
+            action: 'user:update',
+            reasons: ['requires the manageUsers permission', 'requires being the owner']
+        });
+    });
+
+    it('checks the policy with the fields from the tool inputs', async () => {
+        const { callTool } = registerTools({ id: 'user', role: 'USER' });
+        const denied = await callTool('user_update', { userId: 'user', email: 'new@example.com' });
+        assert.equal(denied.isError, true);
+        assert.deepEqual(JSON.parse(denied.content[0].text).reasons, [
+            'requires the manageUsers permission',
+            'the owner may only change name, not email'
+        ]);
+    });
+
+    it('refuses the tools requiring rights the subject does not have', async () => {
+        const { callTool } = registerTools({ id: 'user', role: 'USER' });
+        const denied = await callTool('user_get_all', {});
+        assert.equal(denied.isError, true);
+        assert.deepEqual(JSON.parse(denied.content[0].text), { error: 'Forbidden' });
+    });
+
+    it('calls the tools the subject is allowed to', async () => {
+        const { callTool } = registerTools({ id: 'admin', role: 'ADMIN' });
+        const result = await callTool('user_update', { userId: 'user', email: 'new@example.com' });
+        assert.deepEqual(JSON.parse(result.content[0].text), { id: 'user' });
+    });
+});
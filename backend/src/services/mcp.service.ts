@@ -1,19 +1,95 @@
 import logger from '../config/logger.ts';
-import { MCPTool } from '../types/mcp.ts';
+import {
+    JSONRPC_INVALID_PARAMS,
+    JSONRPC_INVALID_REQUEST,
+    JSONRPC_RESOURCE_NOT_FOUND
+} from '../constants/jsonrpc.constants.ts';
+import {
+    PolicyDecision,
+    PolicySubject,
+    evaluatePolicy,
+    getPolicy,
+    hasRights,
+    mayBeAllowed
+} from '../policies/index.ts';
+import { MCPPrompt, MCPResourceTemplate, MCPTool, MCPToolContext } from '../types/mcp.ts';
+import ApiError from '../utils/ApiError.ts';
+import joiToJsonSchema from '../utils/joiToJsonSchema.ts';
+import { getTenant } from '../utils/tenant.ts';
 import { Server } from '@modelcontextprotocol/sdk/server';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+    CallToolRequestSchema,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ListResourcesRequestSchema,
+    ListToolsRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import httpStatus from 'http-status';
+import Joi from 'joi';
+import { ZodTypeAny } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
-export const registerMCPTools = (params: { server: Server; tools: MCPTool[] }) => {
-    const { server, tools } = params;
-    // Register tools list handler
-    server.setRequestHandler(ListToolsRequestSchema, () => {
+/**
+ * Check whether a tool, a resource template or a prompt can be used by the subject,
+ * the inputs are checked against the policy of its action when used
+ * @param {MCPTool | MCPResourceTemplate | MCPPrompt} item
+ * @param {PolicySubject} subject
+ * @returns {Promise<boolean>}
+ */
+const isAvailable = async (item: MCPTool | MCPResourceTemplate | MCPPrompt, subject: PolicySubject): Promise<boolean> =>
+    (await hasRights(subject, item.requiredRights ?? [])) &&
+    (!item.action || (await mayBeAllowed(item.action, subject)));
+
+/**
+ * Evaluate the policy of an action with the inputs of a tool call or the variables of a resource URI
+ * @param {string} action
+ * @param {PolicySubject} subject
+ * @param {Record<string, unknown>} inputs
+ * @param {boolean} [isRead] - reads change no fields
+ * @returns {Promise<PolicyDecision>}
+ */
+const evaluateInputsPolicy = async (
+    action: string,
+    subject: PolicySubject,
+    inputs: Record<string, unknown>,
+    isRead = false
+): Promise<PolicyDecision> => {
+    const { ownerKey, organizationKey } = getPolicy(action);
+    return await evaluatePolicy(action, subject, {
+        ownerId: ownerKey ? (inputs[ownerKey] as string | undefined) : undefined,
+        organizationId: organizationKey ? (inputs[organizationKey] as string | undefined) : getTenant()?.organizationId,
+        fields: isRead ? [] : Object.keys(inputs).filter(key => key !== ownerKey && key !== organizationKey)
+    });
+};
+
+/**
+ * Register the tools of an MCP session
+ * The context is the one of the user of the session, kept up to date with its latest request
+ * @param {Object} params
+ */
+export const registerMCPTools = (params: { server: Server; tools: MCPTool[]; context: MCPToolContext }) => {
+    const { server, tools, context } = params;
+    // Register tools list handler, only listing the tools the user can call
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+        const availableTools = [];
+        for (const tool of tools) {
+            if (await isAvailable(tool, context.subject)) {
+                availableTools.push(tool);
+            }
+        }
         return {
-            tools: tools.map(tool => ({
+            tools: availableTools.map(tool => ({
                 name: tool.id,
                 title: tool.name,
                 description: tool.description,
-                inputSchema: zodToJsonSchema(tool.inputSchema as any),
+                inputSchema: Joi.isSchema(tool.inputSchema)
+                    ? joiToJsonSchema(tool.inputSchema)
+                    : zodToJsonSchema(tool.inputSchema as any),
                 outputSchema: tool.outputSchema ? zodToJsonSchema(tool.outputSchema as any) : undefined
             }))
         };
@@ -31,11 +107,38 @@ export const registerMCPTools = (params: { server: Server; tools: MCPTool[] }) =
             };
         }
 
+        const { subject } = context;
+        if (!(await hasRights(subject, tool.requiredRights ?? []))) {
+            return {
+                isError: true,
+                content: [{ type: 'text', text: JSON.stringify({ error: 'Forbidden' }) }]
+            };
+        }
+        if (tool.action) {
+            const decision = await evaluateInputsPolicy(tool.action, subject, (args ?? {}) as Record<string, unknown>);
+            if (!decision.allowed) {
+                return {
+                    isError: true,
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify({
+                                error: 'Forbidden',
+                                action: decision.action,
+                                reasons: decision.reasons
+                            })
+                        }
+                    ]
+                };
+            }
+        }
+
         try {
-            const result = await tool.fn(args as any);
+            const result = await tool.fn(args as any, context);
             return {
                 content: [{ type: 'text', text: JSON.stringify(result) }],
-                structuredContent: result
+                // Structured content must match the output schema, it is only sent by the tools declaring one
+                structuredContent: tool.outputSchema ? result : undefined
             };
         } catch (error) {
             logger.error(`Error executing tool ${name}: ${error}`);
@@ -51,3 +154,188 @@ export const registerMCPTools = (params: { server: Server; tools: MCPTool[] }) =
         }
     });
 };
+
+/**
+ * Find the template of a resource URI and the values of its variables
+ * @param {Array} templates
+ * @param {string} uri
+ * @returns {Object}
+ */
+const matchResource = (templates: { template: MCPResourceTemplate; uriTemplate: UriTemplate }[], uri: string) => {
+    for (const { template, uriTemplate } of templates) {
+        const variables = uriTemplate.match(uri);
+        if (variables) {
+            const values = Object.entries(variables).map(([name, value]) => [
+                name,
+                Array.isArray(value) ? value.join(',') : value
+            ]);
+            return { template, variables: Object.fromEntries(values) as Record<string, string> };
+        }
+    }
+    throw { code: JSONRPC_RESOURCE_NOT_FOUND, message: `Resource not found: ${uri}`, data: { uri } };
+};
+
+/**
+ * Register the resources of an MCP session, read through their templates and listed by the templates listing them
+ * Subscriptions last until they are cancelled or the session closes
+ * The context is the one of the user of the session, kept up to date with its latest request
+ * @param {Object} params
+ */
+export const registerMCPResources = (params: {
+    server: Server;
+    resourceTemplates: MCPResourceTemplate[];
+    context: MCPToolContext;
+}) => {
+    const { server, context } = params;
+    const templates = params.resourceTemplates.map(template => ({
+        template,
+        uriTemplate: new UriTemplate(template.uriTemplate)
+    }));
+    // Subscribed URIs of the session and the functions ending their subscription
+    const subscriptions = new Map<string, () => void>();
+
+    /**
+     * Find the template of a resource URI, the subject must be allowed to read the resource
+     * @param {string} uri
+     * @returns {Promise<Object>}
+     */
+    const getReadableResource = async (uri: string) => {
+        const resource = matchResource(templates, uri);
+        const { template, variables } = resource;
+        const { subject } = context;
+        if (!(await hasRights(subject, template.requiredRights ?? []))) {
+            throw { code: JSONRPC_INVALID_REQUEST, message: 'Forbidden' };
+        }
+        if (template.action) {
+            const inputs = template.getPolicyInputs?.(variables) ?? variables;
+            const decision = await evaluateInputsPolicy(template.action, subject, inputs, true);
+            if (!decision.allowed) {
+                throw {
+                    code: JSONRPC_INVALID_REQUEST,
+                    message: 'Forbidden',
+                    data: { action: decision.action, reasons: decision.reasons }
+                };
+            }
+        }
+        return resource;
+    };
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        const availableTemplates = [];
+        for (const { template } of templates) {
+            if (await isAvailable(template, context.subject)) {
+                availableTemplates.push(template);
+            }
+        }
+        return {
+            resourceTemplates: availableTemplates.map(template => ({
+                uriTemplate: template.uriTemplate,
+                name: template.name,
+                title: template.title,
+                description: template.description,
+                mimeType: template.mimeType
+            }))
+        };
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+        const resources = [];
+        for (const { template } of templates) {
+            if (template.list && (await isAvailable(template, context.subject))) {
+                resources.push(...(await template.list(context)));
+            }
+        }
+        return { resources };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async request => {
+        const { uri } = request.params;
+        const { template, variables } = await getReadableResource(uri);
+        try {
+            return { contents: [{ uri, ...(await template.read(variables, context)) }] };
+        } catch (error) {
+            if (error instanceof ApiError && error.statusCode === httpStatus.NOT_FOUND) {
+                throw { code: JSONRPC_RESOURCE_NOT_FOUND, message: error.message, data: { uri } };
+            }
+            logger.error(`Error reading resource ${uri}: ${error}`);
+            throw error;
+        }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async request => {
+        const { uri } = request.params;
+        const { template, variables } = await getReadableResource(uri);
+        if (!template.subscribe) {
+            throw { code: JSONRPC_INVALID_PARAMS, message: `Resource does not support subscriptions: ${uri}` };
+        }
+        if (!subscriptions.has(uri)) {
+            const unsubscribe = template.subscribe(variables, () => {
+                server.sendResourceUpdated({ uri }).catch(error => {
+                    logger.warn(`Resource update notification of ${uri} failed: ${error}`);
+                });
+            });
+            subscriptions.set(uri, unsubscribe);
+        }
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, request => {
+        subscriptions.get(request.params.uri)?.();
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    server.onclose = () => {
+        subscriptions.forEach(unsubscribe => unsubscribe());
+        subscriptions.clear();
+    };
+};
+
+/**
+ * Register the prompts of an MCP session, only the prompts the user may use are listed and returned
+ * The context is the one of the user of the session, kept up to date with its latest request
+ * @param {Object} params
+ */
+export const registerMCPPrompts = (params: { server: Server; prompts: MCPPrompt[]; context: MCPToolContext }) => {
+    const { server, prompts, context } = params;
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+        const availablePrompts = [];
+        for (const prompt of prompts) {
+            if (await isAvailable(prompt, context.subject)) {
+                availablePrompts.push(prompt);
+            }
+        }
+        return {
+            prompts: availablePrompts.map(prompt => ({
+                name: prompt.id,
+                title: prompt.name,
+                description: prompt.description,
+                arguments: Object.entries(prompt.argumentsSchema.shape as Record<string, ZodTypeAny>).map(
+                    ([name, schema]) => ({ name, description: schema.description, required: !schema.isOptional() })
+                )
+            }))
+        };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async request => {
+        const { name, arguments: args } = request.params;
+
+        const prompt = prompts.find(p => p.id === name);
+        if (!prompt || !(await isAvailable(prompt, context.subject))) {
+            throw { code: JSONRPC_INVALID_PARAMS, message: `Prompt not found: ${name}` };
+        }
+        const parsedArgs = prompt.argumentsSchema.safeParse(args ?? {});
+        if (!parsedArgs.success) {
+            const message = parsedArgs.error.issues
+                .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+                .join(', ');
+            throw { code: JSONRPC_INVALID_PARAMS, message: `Invalid arguments: ${message}` };
+        }
+
+        return {
+            description: prompt.description,
+            messages: await prompt.fn(parsedArgs.data, context)
+        };
+    });
+};
@@ -0,0 +1,169 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import { User } from '../generated/prisma/index.js';
+import ApiError from '../utils/ApiError.ts';
+import { encryptPassword, isPasswordMatch } from '../utils/encryption.ts';
+import { getRandomString } from '../utils/string.ts';
+import { generateTotpSecret, getTotpUri, verifyTotp } from '../utils/totp.ts';
+import httpStatus from 'http-status';
+
+const RECOVERY_CODES_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+
+type TwoFactorUser = Pick<
+    User,
+    'id' | 'email' | 'isTwoFactorEnabled' | 'twoFactorSecret' | 'twoFactorLastUsedStep' | 'twoFactorRecoveryCodes'
+>;
+
+/**
+ * Get the two-factor state of a user
+ * @param {string} userId
+ * @returns {Promise<TwoFactorUser>}
+ */
+const getTwoFactorUser = async (userId: string): Promise<TwoFactorUser> => {
+    const user = await prisma.user.findFirst({
+        where: { id: userId, isDeleted: false },
+        select: {
+            id: true,
+            email: true,
+            isTwoFactorEnabled: true,
+            twoFactorSecret: true,
+            twoFactorLastUsedStep: true,
+            twoFactorRecoveryCodes: true
+        }
+    });
+    if (!user) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    return user;
+};
+
+/**
+ * Verify a TOTP code, each code is accepted only once
+ * @param {TwoFactorUser} user
+ * @param {string} code
+ * @returns {Promise<boolean>}
+ */
+const verifyTotpCode = async (user: TwoFactorUser, code: string): Promise<boolean> => {
+    if (!user.twoFactorSecret) {
+        return false;
+    }
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step === null || (user.twoFactorLastUsedStep !== null && step <= user.twoFactorLastUsedStep)) {
+        return false;
+    }
+    await prisma.user.update({ where: { id: user.id }, data: { twoFactorLastUsedStep: step } });
+    return true;
+};
+
+/**
+ * Verify and consume a recovery code
+ * @param {TwoFactorUser} user
+ * @param {string} code
+ * @returns {Promise<boolean>}
+ */
+const verifyRecoveryCode = async (user: TwoFactorUser, code: string): Promise<boolean> => {
+    for (const recoveryCode of user.twoFactorRecoveryCodes) {
+        if (await isPasswordMatch(code, recoveryCode)) {
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(c => c !== recoveryCode) }
+            });
+            return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * Verify the second factor of a user, either a TOTP code or a recovery code
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<void>}
+ */
+const verifyTwoFactorCode = async (userId: string, code: string): Promise<void> => {
+    const user = await getTwoFactorUser(userId);
+    if (!user.isTwoFactorEnabled) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Two-factor authentication is not enabled');
+    }
+    if (!(await verifyTotpCode(user, code)) && !(await verifyRecoveryCode(user, code))) {
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid two-factor code');
+    }
+};
+
+/**
+ * Start TOTP enrolment, the secret is only active once confirmed with enableTwoFactor
+ * @param {string} userId
+ * @returns {Promise<{ secret: string; otpauthUrl: string }>}
+ */
+const setupTwoFactor = async (userId: string): Promise<{ secret: string; otpauthUrl: string }> => {
+    const user = await getTwoFactorUser(userId);
+    if (user.isTwoFactorEnabled) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Two-factor authentication already enabled');
+    }
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { twoFactorSecret: secret, twoFactorLastUsedStep: null }
+    });
+    return {
+        secret,
+        otpauthUrl: getTotpUri({ secret, accountName: user.email, issuer: config.totp.issuer })
+    };
+};
+
+/**
+ * Confirm TOTP enrolment with a code from the authenticator app
+ * @param {string} userId
+ * @param {string} code
+ * @returns {Promise<{ recoveryCodes: string[] }>} the recovery codes, only shown once
+ */
+const enableTwoFactor = async (userId: string, code: string): Promise<{ recoveryCodes: string[] }> => {
+    const user = await getTwoFactorUser(userId);
+    if (user.isTwoFactorEnabled) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Two-factor authentication already enabled');
+    }
+    if (!user.twoFactorSecret) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Two-factor authentication setup not started');
+    }
+    if (!(await verifyTotpCode(user, code))) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid two-factor code');
+    }
+    const recoveryCodes = Array.from({ length: RECOVERY_CODES_COUNT }, () =>
+        getRandomString('alphanumeric', RECOVERY_CODE_LENGTH)
+    );
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            isTwoFactorEnabled: true,
+            twoFactorRecoveryCodes: await Promise.all(recoveryCodes.map(encryptPassword))
+        }
+    });
+    return { recoveryCodes };
+};
+
+/**
+ * Disable two-factor authentication
+ * @param {string} userId
+ * @param {string} code - TOTP or recovery code
+ * @returns {Promise<void>}
+ */
+const disableTwoFactor = async (userId: string, code: string): Promise<void> => {
+    await verifyTwoFactorCode(userId, code);
+    await prisma.user.update({
+        where: { id: userId },
+        data: {
+            isTwoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastUsedStep: null,
+            twoFactorRecoveryCodes: []
+        }
+    });
+};
+
+export default {
+    verifyTwoFactorCode,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor
+};
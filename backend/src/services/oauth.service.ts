@@ -0,0 +1,90 @@
+import prisma from '../client.ts';
+import logger from '../config/logger.ts';
+import { getInstance as getOAuthProvider, isConfigured } from '../oauth/index.ts';
+import { AuthorizationCodeParams, AuthorizationUrlParams, OAuthProfile, OAuthProviderName } from '../oauth/types.ts';
+import ApiError from '../utils/ApiError.ts';
+import { getRandomString } from '../utils/string.ts';
+import userService from './user.service.ts';
+import httpStatus from 'http-status';
+
+/**
+ * Get a configured OAuth provider
+ * @param {OAuthProviderName} provider
+ * @returns {BaseOAuthProvider}
+ */
+const getProvider = (provider: OAuthProviderName) => {
+    if (!isConfigured(provider)) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'OAuth provider not configured');
+    }
+    return getOAuthProvider(provider);
+};
+
+/**
+ * Get the provider authorization URL the app opens to start the login
+ * @param {OAuthProviderName} provider
+ * @param {AuthorizationUrlParams} params
+ * @returns {Promise<string>}
+ */
+const getAuthorizationUrl = async (provider: OAuthProviderName, params: AuthorizationUrlParams): Promise<string> => {
+    return await getProvider(provider).getAuthorizationUrl(params);
+};
+
+/**
+ * Find the user of a provider profile, linking or creating the account by verified email
+ * @param {OAuthProviderName} provider
+ * @param {OAuthProfile} profile
+ * @returns {Promise<string>} user id
+ */
+const findOrCreateUser = async (provider: OAuthProviderName, profile: OAuthProfile): Promise<string> => {
+    const identity = await prisma.linkedIdentity.findFirst({
+        where: { provider, subject: profile.subject, user: { isDeleted: false } },
+        select: { userId: true }
+    });
+    if (identity) {
+        return identity.userId;
+    }
+
+    // Only a verified email proves the provider account belongs to the owner of our account
+    if (!profile.email || !profile.emailVerified) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'A verified email is required to login with this provider');
+    }
+    let user = await userService.getUserByEmail(profile.email, ['id', 'isEmailVerified']);
+    if (!user) {
+        // The account has no usable password until one is set with forgot password
+        user = await userService.createUser(profile.email, getRandomString('alphanumeric', 32), profile.name);
+        await userService.updateUserById(user.id, { isEmailVerified: true });
+    } else if (!user.isEmailVerified) {
+        // The unverified account may have been registered by someone else to take over the account
+        await userService.claimUnverifiedUser(user.id);
+    }
+    await prisma.linkedIdentity.create({
+        data: { provider, subject: profile.subject, email: profile.email, userId: user.id }
+    });
+    return user.id;
+};
+
+/**
+ * Login with the authorization code of an OAuth provider
+ * @param {OAuthProviderName} provider
+ * @param {AuthorizationCodeParams} params
+ * @returns {Promise<string>} user id
+ */
+const loginWithAuthorizationCode = async (
+    provider: OAuthProviderName,
+    params: AuthorizationCodeParams
+): Promise<string> => {
+    const oauthProvider = getProvider(provider);
+    let profile: OAuthProfile;
+    try {
+        profile = await oauthProvider.getProfile(params);
+    } catch (error) {
+        logger.warn(`OAuth login with ${provider} failed: ${(error as Error).message}`);
+        throw new ApiError(httpStatus.UNAUTHORIZED, 'OAuth login failed');
+    }
+    return findOrCreateUser(provider, profile);
+};
+
+export default {
+    getAuthorizationUrl,
+    loginWithAuthorizationCode
+};
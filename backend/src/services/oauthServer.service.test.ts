@@ -0,0 +1,230 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import { OAuthAuthorizationCode, OAuthClient } from '../generated/prisma/index.js';
+import { AuditEventType } from '../types/audit.ts';
+import OAuthError from '../utils/OAuthError.ts';
+import auditService from './audit.service.ts';
+import oauthServerService from './oauthServer.service.ts';
+import tokenService from './token.service.ts';
+import userService from './user.service.ts';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+
+const REDIRECT_URI = 'http://127.0.0.1:8080/callback';
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+const client = {
+    id: 'client-1',
+    name: 'Agent',
+    hashedSecret: null,
+    redirectUris: [REDIRECT_URI]
+} as unknown as OAuthClient;
+
+const createPkcePair = () => {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    return { codeVerifier, codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url') };
+};
+
+const isOAuthError = (error: string) => (thrown: unknown) => thrown instanceof OAuthError && thrown.error === error;
+
+describe('oauthServerService', () => {
+    // Authorization codes stored by the stubbed Prisma client
+    let codes: OAuthAuthorizationCode[];
+    let revokeFamilyTokens: ReturnType<typeof mock.fn>;
+    let recordEvent: ReturnType<typeof mock.fn>;
+
+    /**
+     * Approve an authorization request of the client and return the code sent to its redirect URI
+     * @param {string} codeChallenge
+     * @returns {Promise<string>}
+     */
+    const getAuthorizationCode = async (codeChallenge: string): Promise<string> => {
+        const redirectUrl = await oauthServerService.authorize('user-1', {
+            clientId: client.id,
+            redirectUri: REDIRECT_URI,
+            codeChallenge,
+            codeChallengeMethod: 'S256',
+            state: 'xyz'
+        });
+        return new URL(redirectUrl).searchParams.get('code')!;
+    };
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: NOW });
+        codes = [];
+        // Prisma model methods are not own properties of the client for mock.method to replace
+        Object.assign(prisma.oAuthClient, {
+            findFirst: async ({ where }: { where: { id: string } }) => (where.id === client.id ? client : null)
+        });
+        Object.assign(prisma.oAuthAuthorizationCode, {
+            create: async ({ data }: { data: OAuthAuthorizationCode }) => {
+                const code = { ...data, id: codes.length + 1, usedAt: null };
+                codes.push(code);
+                return code;
+            },
+            findFirst: async ({ where }: { where: Pick<OAuthAuthorizationCode, 'hashedCode' | 'clientId'> }) =>
+                codes.find(code => code.hashedCode === where.hashedCode && code.clientId === where.clientId) ?? null,
+            updateMany: async ({ where, data }: { where: { id: number }; data: { usedAt: Date } }) => {
+                const code = codes.find(({ id, usedAt }) => id === where.id && !usedAt);
+                Object.assign(code ?? {}, data);
+                return { count: code ? 1 : 0 };
+            }
+        });
+        revokeFamilyTokens = mock.fn(async () => ({ count: 2 }));
+        Object.assign(prisma.token, { updateMany: revokeFamilyTokens });
+        mock.method(userService, 'getUserById', async (id: string) => ({ id }));
+        mock.method(tokenService, 'generateAuthTokens', async () => ({
+            access: { token: 'access-token', expires: new Date(NOW + 15 * 60 * 1000) },
+            refresh: { token: 'refresh-token', expires: new Date(NOW + 24 * 60 * 60 * 1000) }
+        }));
+        recordEvent = mock.method(auditService, 'recordEvent', async () => undefined);
+    });
+
+    afterEach(() => {
+        delete (prisma.oAuthClient as Partial<typeof prisma.oAuthClient>).findFirst;
+        for (const method of ['create', 'findFirst', 'updateMany'] as const) {
+            delete (prisma.oAuthAuthorizationCode as Partial<typeof prisma.oAuthAuthorizationCode>)[method];
+        }
+        delete (prisma.token as Partial<typeof prisma.token>).updateMany;
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    describe('authorize', () => {
+        it('sends the code and the state to the redirect URI of the client', async () => {
+            const redirectUrl = new URL(
+                await oauthServerService.authorize('user-1', {
+                    clientId: client.id,
+                    redirectUri: REDIRECT_URI,
+                    codeChallenge: createPkcePair().codeChallenge,
+                    codeChallengeMethod: 'S256',
+                    state: 'xyz'
+                })
+            );
+            assert.equal(`${redirectUrl.origin}${redirectUrl.pathname}`, REDIRECT_URI);
+            assert.equal(redirectUrl.searchParams.get('state'), 'xyz');
+            assert.equal(redirectUrl.searchParams.get('iss'), config.oauthServer.issuer);
+            // Only the hash of the code is stored
+            assert.notEqual(codes[0].hashedCode, redirectUrl.searchParams.get('code'));
+        });
+
+        it('requires an S256 PKCE challenge', async () => {
+            const request = { clientId: client.id, redirectUri: REDIRECT_URI, codeChallengeMethod: 'S256' };
+            await assert.rejects(
+                oauthServerService.authorize('user-1', {
+                    ...request,
+                    codeChallenge: 'plain-verifier',
+                    codeChallengeMethod: 'plain'
+                }),
+                isOAuthError('invalid_request')
+            );
+            await assert.rejects(
+                oauthServerService.authorize('user-1', { ...request, codeChallenge: 'too-short' }),
+                isOAuthError('invalid_request')
+            );
+            assert.equal(codes.length, 0);
+        });
+
+        it('refuses a redirect URI the client did not register', async () => {
+            await assert.rejects(
+                oauthServerService.authorize('user-1', {
+                    clientId: client.id,
+                    redirectUri: 'https://attacker.example.com/callback',
+                    codeChallenge: createPkcePair().codeChallenge,
+                    codeChallengeMethod: 'S256'
+                }),
+                isOAuthError('invalid_request')
+            );
+        });
+    });
+
+    describe('exchangeAuthorizationCode', () => {
+        it('exchanges a code for tokens with the PKCE verifier', async () => {
+            const { codeVerifier, codeChallenge } = createPkcePair();
+            const code = await getAuthorizationCode(codeChallenge);
+            const tokens = await oauthServerService.exchangeAuthorizationCode(
+                { clientId: client.id },
+                { code, codeVerifier, redirectUri: REDIRECT_URI },
+                {}
+            );
+            assert.deepEqual(tokens, {
+                access_token: 'access-token',
+                token_type: 'Bearer',
+                expires_in: 15 * 60,
+                refresh_token: 'refresh-token'
+            });
+        });
+
+        it('refuses a code redeemed with another PKCE verifier', async () => {
+            const code = await getAuthorizationCode(createPkcePair().codeChallenge);
+            await assert.rejects(
+                oauthServerService.exchangeAuthorizationCode(
+                    { clientId: client.id },
+                    { code, codeVerifier: createPkcePair().codeVerifier, redirectUri: REDIRECT_URI },
+                    {}
+                ),
+                isOAuthError('invalid_grant')
+            );
+        });
+
+        it('refuses a code redeemed with another redirect URI', async () => {
+            const { codeVerifier, codeChallenge } = createPkcePair();
+            const code = await getAuthorizationCode(codeChallenge);
+            await assert.rejects(
+                oauthServerService.exchangeAuthorizationCode(
+                    { clientId: client.id },
+                    { code, codeVerifier, redirectUri: 'http://127.0.0.1:9090/callback' },
+                    {}
+                ),
+                isOAuthError('invalid_grant')
+            );
+        });
+
+        it('refuses an expired code', async () => {
+            const { codeVerifier, codeChallenge } = createPkcePair();
+            const code = await getAuthorizationCode(codeChallenge);
+            mock.timers.tick((config.oauthServer.codeExpirationMinutes * 60 + 1) * 1000);
+            await assert.rejects(
+                oauthServerService.exchangeAuthorizationCode(
+                    { clientId: client.id },
+                    { code, codeVerifier, redirectUri: REDIRECT_URI },
+                    {}
+                ),
+                isOAuthError('invalid_grant')
+            );
+        });
+
+        it('refuses a client authenticating with a secret it was not issued', async () => {
+            const { codeVerifier, codeChallenge } = createPkcePair();
+            const code = await getAuthorizationCode(codeChallenge);
+            await assert.rejects(
+                oauthServerService.exchangeAuthorizationCode(
+                    { clientId: client.id, clientSecret: 'guessed-secret' },
+                    { code, codeVerifier, redirectUri: REDIRECT_URI },
+                    {}
+                ),
+                isOAuthError('invalid_client')
+            );
+        });
+
+        it('revokes the tokens issued from a code exchanged again', async () => {
+            const { codeVerifier, codeChallenge } = createPkcePair();
+            const code = await getAuthorizationCode(codeChallenge);
+            const exchange = { code, codeVerifier, redirectUri: REDIRECT_URI };
+            await oauthServerService.exchangeAuthorizationCode({ clientId: client.id }, exchange, {});
+            await assert.rejects(
+                oauthServerService.exchangeAuthorizationCode({ clientId: client.id }, exchange, {}),
+                isOAuthError('invalid_grant')
+            );
+            assert.deepEqual(revokeFamilyTokens.mock.calls[0].arguments[0], {
+                where: { family: codes[0].family },
+                data: { isDeleted: true }
+            });
+            const reuseEvents = recordEvent.mock.calls.filter(
+                call => call.arguments[0] === AuditEventType.OAUTH_CODE_REUSE
+            );
+            assert.equal(reuseEvents.length, 1);
+        });
+    });
+});
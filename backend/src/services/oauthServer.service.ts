@@ -0,0 +1,353 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import { OAuthClient } from '../generated/prisma/index.js';
+import { AuditEventType } from '../types/audit.ts';
+import {
+    OAuthAuthorizationRequest,
+    OAuthClientCredentials,
+    OAuthClientRegistration,
+    OAuthCodeExchange,
+    OAuthGrantType,
+    TokenEndpointAuthMethod
+} from '../types/oauthServer.ts';
+import { AuthTokensResponse, OAuthClientResponse, OAuthTokenResponse } from '../types/response.ts';
+import { SessionMetadata } from '../types/session.ts';
+import ApiError from '../utils/ApiError.ts';
+import OAuthError from '../utils/OAuthError.ts';
+import { getRandomString } from '../utils/string.ts';
+import auditService from './audit.service.ts';
+import authService from './auth.service.ts';
+import tokenService from './token.service.ts';
+import userService from './user.service.ts';
+import crypto from 'crypto';
+import httpStatus from 'http-status';
+import moment from 'moment';
+import { v4 as uuid } from 'uuid';
+
+const CLIENT_SECRET_LENGTH = 40;
+const AUTHORIZATION_CODE_LENGTH = 40;
+// RFC 7636 code challenge of the S256 method, a base64url encoded SHA-256 hash
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const FORBIDDEN_REDIRECT_SCHEMES = ['http:', 'javascript:', 'data:', 'file:', 'vbscript:'];
+
+/**
+ * Hash a client secret or an authorization code, they are long random strings so a fast hash is enough
+ * @param {string} value
+ * @returns {string}
+ */
+const hashSecret = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+/**
+ * Add query parameters to a URL, undefined values are left out
+ * @param {string} url
+ * @param {Record<string, string | undefined>} params
+ * @returns {string}
+ */
+const buildUrl = (url: string, params: Record<string, string | undefined>): string => {
+    const result = new URL(url);
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) {
+            result.searchParams.set(key, value);
+        }
+    }
+    return result.toString();
+};
+
+/**
+ * Get the metadata of the MCP endpoint as an OAuth protected resource (RFC 9728)
+ * @returns {Object}
+ */
+const getProtectedResourceMetadata = () => ({
+    resource: config.oauthServer.resource,
+    authorization_servers: [config.oauthServer.issuer],
+    bearer_methods_supported: ['header']
+});
+
+/**
+ * Get the metadata of the authorization server (RFC 8414)
+ * @returns {Object}
+ */
+const getAuthorizationServerMetadata = () => ({
+    issuer: config.oauthServer.issuer,
+    authorization_endpoint: `${config.oauthServer.issuer}/oauth/authorize`,
+    token_endpoint: `${config.oauthServer.issuer}/oauth/token`,
+    registration_endpoint: `${config.oauthServer.issuer}/oauth/register`,
+    response_types_supported: ['code'],
+    grant_types_supported: Object.values(OAuthGrantType),
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: Object.values(TokenEndpointAuthMethod),
+    authorization_response_iss_parameter_supported: true
+});
+
+/**
+ * Check a redirect URI of a client: https, http on the loopback interface for native apps,
+ * or a private-use scheme of a native app (RFC 8252)
+ * @param {string} redirectUri
+ * @returns {void}
+ */
+const assertValidRedirectUri = (redirectUri: string): void => {
+    let url: URL;
+    try {
+        url = new URL(redirectUri);
+    } catch {
+        throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_redirect_uri', `Invalid redirect URI: ${redirectUri}`);
+    }
+    const isLoopback = url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname);
+    if (url.hash || (!isLoopback && FORBIDDEN_REDIRECT_SCHEMES.includes(url.protocol))) {
+        throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_redirect_uri', `Invalid redirect URI: ${redirectUri}`);
+    }
+};
+
+/**
+ * Register a client (RFC 7591), the secret of confidential clients is only returned once
+ * @param {OAuthClientRegistration} registration
+ * @returns {Promise<OAuthClientResponse>}
+ */
+const registerClient = async (registration: OAuthClientRegistration): Promise<OAuthClientResponse> => {
+    registration.redirectUris.forEach(assertValidRedirectUri);
+    const isPublic = registration.tokenEndpointAuthMethod === TokenEndpointAuthMethod.NONE;
+    const secret = isPublic ? undefined : getRandomString('alphanumeric', CLIENT_SECRET_LENGTH);
+    const client = await prisma.oAuthClient.create({
+        data: {
+            name: registration.clientName,
+            hashedSecret: secret && hashSecret(secret),
+            redirectUris: registration.redirectUris,
+            tokenEndpointAuthMethod: registration.tokenEndpointAuthMethod
+        }
+    });
+    await auditService.recordEvent(AuditEventType.OAUTH_CLIENT_REGISTRATION, {
+        actorId: null,
+        metadata: { clientId: client.id, clientName: client.name, redirectUris: client.redirectUris }
+    });
+    return {
+        client_id: client.id,
+        ...(secret && { client_secret: secret, client_secret_expires_at: 0 }),
+        client_id_issued_at: moment(client.createdAt).unix(),
+        client_name: client.name ?? undefined,
+        redirect_uris: client.redirectUris,
+        token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+        grant_types: Object.values(OAuthGrantType),
+        response_types: ['code']
+    };
+};
+
+/**
+ * Get a client and check the redirect URI is one of its registered ones
+ * Errors are not sent to the redirect URI as it cannot be trusted
+ * @param {string} clientId
+ * @param {string} redirectUri
+ * @returns {Promise<OAuthClient>}
+ */
+const getClientWithRedirectUri = async (clientId: string, redirectUri: string): Promise<OAuthClient> => {
+    const client = await prisma.oAuthClient.findFirst({ where: { id: clientId } });
+    if (!client) {
+        throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_request', 'Unknown client');
+    }
+    if (!client.redirectUris.includes(redirectUri)) {
+        throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_request', 'Redirect URI not registered for the client');
+    }
+    return client;
+};
+
+/**
+ * Check the PKCE challenge and the requested resource of an authorization request
+ * @param {OAuthAuthorizationRequest} request
+ * @returns {void}
+ */
+const assertValidAuthorizationRequest = (request: OAuthAuthorizationRequest): void => {
+    if (request.codeChallengeMethod !== 'S256' || !CODE_CHALLENGE_PATTERN.test(request.codeChallenge)) {
+        throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_request', 'An S256 PKCE code challenge is required');
+    }
+    if (request.resource !== undefined && request.resource !== config.oauthServer.resource) {
+        throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_target', 'Unknown resource');
+    }
+};
+
+/**
+ * Get the app page where the user logs in and approves an authorization request,
+ * or the redirect URI of the client with the error of an invalid request
+ * @param {OAuthAuthorizationRequest} request
+ * @param {string} responseType
+ * @returns {Promise<string>}
+ */
+const getAuthorizationPageUrl = async (request: OAuthAuthorizationRequest, responseType: string): Promise<string> => {
+    const client = await getClientWithRedirectUri(request.clientId, request.redirectUri);
+    try {
+        if (responseType !== 'code') {
+            throw new OAuthError(
+                httpStatus.BAD_REQUEST,
+                'unsupported_response_type',
+                'Only the code flow is supported'
+            );
+        }
+        assertValidAuthorizationRequest(request);
+    } catch (error) {
+        if (!(error instanceof OAuthError)) {
+            throw error;
+        }
+        return buildUrl(request.redirectUri, {
+            error: error.error,
+            error_description: error.message,
+            state: request.state,
+            iss: config.oauthServer.issuer
+        });
+    }
+    return buildUrl(`${config.appUrl}/oauth/authorize`, {
+        client_id: client.id,
+        client_name: client.name ?? undefined,
+        redirect_uri: request.redirectUri,
+        code_challenge: request.codeChallenge,
+        code_challenge_method: request.codeChallengeMethod,
+        state: request.state,
+        scope: request.scope,
+        resource: request.resource
+    });
+};
+
+/**
+ * Grant an authorization request approved by the user, the client receives the code on its redirect URI
+ * @param {string} userId
+ * @param {OAuthAuthorizationRequest} request
+ * @returns {Promise<string>} redirect URI with the code
+ */
+const authorize = async (userId: string, request: OAuthAuthorizationRequest): Promise<string> => {
+    const client = await getClientWithRedirectUri(request.clientId, request.redirectUri);
+    assertValidAuthorizationRequest(request);
+    const code = getRandomString('alphanumeric', AUTHORIZATION_CODE_LENGTH);
+    await prisma.oAuthAuthorizationCode.create({
+        data: {
+            hashedCode: hashSecret(code),
+            redirectUri: request.redirectUri,
+            codeChallenge: request.codeChallenge,
+            scope: request.scope,
+            expires: moment().add(config.oauthServer.codeExpirationMinutes, 'minutes').toDate(),
+            family: uuid(),
+            clientId: client.id,
+            userId
+        }
+    });
+    await auditService.recordEvent(AuditEventType.OAUTH_AUTHORIZATION, {
+        targetId: userId,
+        metadata: { clientId: client.id, clientName: client.name, scope: request.scope }
+    });
+    return buildUrl(request.redirectUri, { code, state: request.state, iss: config.oauthServer.issuer });
+};
+
+/**
+ * Authenticate a client at the token endpoint, public clients only give their id
+ * @param {OAuthClientCredentials} credentials
+ * @returns {Promise<OAuthClient>}
+ */
+const authenticateClient = async ({ clientId, clientSecret }: OAuthClientCredentials): Promise<OAuthClient> => {
+    const client = clientId ? await prisma.oAuthClient.findFirst({ where: { id: clientId } }) : null;
+    const isAuthenticated =
+        client &&
+        (client.hashedSecret
+            ? clientSecret !== undefined && hashSecret(clientSecret) === client.hashedSecret
+            : clientSecret === undefined);
+    if (!client || !isAuthenticated) {
+        throw new OAuthError(httpStatus.UNAUTHORIZED, 'invalid_client', 'Client authentication failed');
+    }
+    return client;
+};
+
+const toTokenResponse = (tokens: AuthTokensResponse, scope?: string | null): OAuthTokenResponse => ({
+    access_token: tokens.access.token,
+    token_type: 'Bearer',
+    expires_in: moment(tokens.access.expires).diff(moment(), 'seconds'),
+    refresh_token: tokens.refresh?.token,
+    ...(scope && { scope })
+});
+
+/**
+ * Exchange an authorization code for tokens, the code verifier must match the PKCE challenge
+ * Exchanging a code again revokes the tokens issued from it (RFC 6749 4.1.2)
+ * @param {OAuthClientCredentials} credentials
+ * @param {OAuthCodeExchange} exchange
+ * @param {SessionMetadata} session - device details of the request
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const exchangeAuthorizationCode = async (
+    credentials: OAuthClientCredentials,
+    exchange: OAuthCodeExchange,
+    session: SessionMetadata
+): Promise<OAuthTokenResponse> => {
+    const client = await authenticateClient(credentials);
+    const invalidGrant = new OAuthError(httpStatus.BAD_REQUEST, 'invalid_grant', 'Invalid authorization code');
+    const codeData = await prisma.oAuthAuthorizationCode.findFirst({
+        where: { hashedCode: hashSecret(exchange.code), clientId: client.id }
+    });
+    if (!codeData) {
+        throw invalidGrant;
+    }
+    if (codeData.usedAt) {
+        await prisma.token.updateMany({ where: { family: codeData.family }, data: { isDeleted: true } });
+        await auditService.recordEvent(AuditEventType.OAUTH_CODE_REUSE, {
+            actorId: null,
+            targetId: codeData.userId,
+            metadata: { clientId: client.id, family: codeData.family }
+        });
+        throw invalidGrant;
+    }
+    const codeChallenge = crypto.createHash('sha256').update(exchange.codeVerifier).digest('base64url');
+    if (
+        codeData.expires < new Date() ||
+        codeData.redirectUri !== exchange.redirectUri ||
+        !CODE_VERIFIER_PATTERN.test(exchange.codeVerifier) ||
+        codeChallenge !== codeData.codeChallenge ||
+        (exchange.resource !== undefined && exchange.resource !== config.oauthServer.resource)
+    ) {
+        throw invalidGrant;
+    }
+    const { count } = await prisma.oAuthAuthorizationCode.updateMany({
+        where: { id: codeData.id, usedAt: null },
+        data: { usedAt: new Date() }
+    });
+    const user = await userService.getUserById(codeData.userId, ['id']);
+    if (!count || !user) {
+        throw invalidGrant;
+    }
+    const tokens = await tokenService.generateAuthTokens(user, {
+        ...session,
+        deviceName: client.name ?? undefined,
+        family: codeData.family,
+        clientId: client.id
+    });
+    return toTokenResponse(tokens, codeData.scope);
+};
+
+/**
+ * Refresh the tokens of a client, refresh tokens rotate like the ones of the app
+ * @param {OAuthClientCredentials} credentials
+ * @param {string} refreshToken
+ * @param {SessionMetadata} session - device details of the request
+ * @returns {Promise<OAuthTokenResponse>}
+ */
+const refreshClientTokens = async (
+    credentials: OAuthClientCredentials,
+    refreshToken: string,
+    session: SessionMetadata
+): Promise<OAuthTokenResponse> => {
+    const client = await authenticateClient(credentials);
+    try {
+        const tokens = await authService.refreshAuth(refreshToken, { ...session, clientId: client.id });
+        return toTokenResponse(tokens);
+    } catch (error) {
+        if (error instanceof ApiError && error.statusCode === httpStatus.UNAUTHORIZED) {
+            throw new OAuthError(httpStatus.BAD_REQUEST, 'invalid_grant', 'Invalid refresh token');
+        }
+        throw error;
+    }
+};
+
+export default {
+    getProtectedResourceMetadata,
+    getAuthorizationServerMetadata,
+    registerClient,
+    getAuthorizationPageUrl,
+    authorize,
+    exchangeAuthorizationCode,
+    refreshClientTokens
+};
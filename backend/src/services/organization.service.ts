@@ -0,0 +1,377 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import { Invitation, Membership, Organization, OrganizationRole, User } from '../generated/prisma/index.js';
+import { PolicySubject } from '../policies/types.ts';
+import { MemberResponse, OrganizationResponse } from '../types/response.ts';
+import ApiError from '../utils/ApiError.ts';
+import { getRandomString } from '../utils/string.ts';
+import { Tenant } from '../utils/tenant.ts';
+import emailService from './email.service.ts';
+import roleService from './role.service.ts';
+import httpStatus from 'http-status';
+import moment from 'moment';
+
+const INVITATION_TOKEN_LENGTH = 32;
+
+// User acting on an organization, with the scopes of its API key if any
+type Actor = PolicySubject & { id: string };
+
+/**
+ * Users with the manageOrganizations right act on every organization, API keys need it in their scopes
+ * @param {PolicySubject} subject
+ * @returns {Promise<boolean>}
+ */
+const canManageOrganizations = async (subject: PolicySubject): Promise<boolean> => {
+    if (subject.scopes && !subject.scopes.includes('manageOrganizations')) {
+        return false;
+    }
+    return await roleService.hasPermissions(subject.role, ['manageOrganizations']);
+};
+
+const toOrganizationResponse = (organization: Organization, role: OrganizationRole): OrganizationResponse => ({
+    id: organization.id,
+    name: organization.name,
+    role,
+    createdAt: organization.createdAt,
+    updatedAt: organization.updatedAt
+});
+
+/**
+ * Create an organization, its creator becomes its owner
+ * @param {string} name
+ * @param {string} ownerId
+ * @returns {Promise<OrganizationResponse>}
+ */
+const createOrganization = async (name: string, ownerId: string): Promise<OrganizationResponse> => {
+    const organization = await prisma.organization.create({ data: { name } });
+    await prisma.membership.create({
+        data: { organizationId: organization.id, userId: ownerId, role: OrganizationRole.OWNER }
+    });
+    return toOrganizationResponse(organization, OrganizationRole.OWNER);
+};
+
+/**
+ * Query the organizations of a user
+ * @param {string} userId
+ * @returns {Promise<OrganizationResponse[]>}
+ */
+const queryOrganizations = async (userId: string): Promise<OrganizationResponse[]> => {
+    const memberships = await prisma.membership.findMany({
+        where: { userId, organization: { isDeleted: false } },
+        include: { organization: true },
+        orderBy: { createdAt: 'asc' }
+    });
+    return memberships.map(membership => toOrganizationResponse(membership.organization, membership.role));
+};
+
+/**
+ * Get organization by id
+ * @param {string} id
+ * @returns {Promise<Organization | null>}
+ */
+const getOrganizationById = async (id: string): Promise<Organization | null> => {
+    return await prisma.organization.findFirst({ where: { id } });
+};
+
+/**
+ * Get organization by id, or throw
+ * @param {string} id
+ * @returns {Promise<Organization>}
+ */
+const getExistingOrganization = async (id: string): Promise<Organization> => {
+    const organization = await getOrganizationById(id);
+    if (!organization) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Organization not found');
+    }
+    return organization;
+};
+
+/**
+ * Update organization by id
+ * @param {string} id
+ * @param {Object} updateBody
+ * @returns {Promise<Organization>}
+ */
+const updateOrganizationById = async (id: string, updateBody: { name?: string }): Promise<Organization> => {
+    await getExistingOrganization(id);
+    return await prisma.organization.update({ where: { id }, data: updateBody });
+};
+
+/**
+ * Delete organization by id (soft delete), along with its memberships and invitations
+ * @param {string} id
+ * @returns {Promise<void>}
+ */
+const deleteOrganizationById = async (id: string): Promise<void> => {
+    await getExistingOrganization(id);
+    await prisma.membership.updateMany({ where: { organizationId: id }, data: { isDeleted: true } });
+    await prisma.invitation.updateMany({ where: { organizationId: id }, data: { isDeleted: true } });
+    await prisma.organization.update({ where: { id }, data: { isDeleted: true } });
+};
+
+/**
+ * Get the membership of a user in an organization
+ * @param {string} organizationId
+ * @param {string} userId
+ * @returns {Promise<Membership | null>}
+ */
+const getMembership = async (organizationId: string, userId: string): Promise<Membership | null> => {
+    return await prisma.membership.findFirst({
+        where: { organizationId, userId, organization: { isDeleted: false } }
+    });
+};
+
+/**
+ * Resolve the tenant a user works in, only members and users with the manageOrganizations right may use it
+ * @param {Actor} user
+ * @param {string} organizationId
+ * @returns {Promise<Tenant>}
+ */
+const resolveTenant = async (user: Actor, organizationId: string): Promise<Tenant> => {
+    const membership = await getMembership(organizationId, user.id);
+    if (membership) {
+        return { organizationId, organizationRole: membership.role };
+    }
+    if (!(await canManageOrganizations(user))) {
+        throw new ApiError(httpStatus.FORBIDDEN, 'Not a member of the organization');
+    }
+    await getExistingOrganization(organizationId);
+    return { organizationId, organizationRole: null };
+};
+
+/**
+ * Only owners and users with the manageOrganizations right can grant or change the owner role
+ * @param {string} organizationId
+ * @param {Actor} actor - the user making the change
+ * @param {OrganizationRole[]} roles - the roles being granted or changed
+ * @returns {Promise<void>}
+ */
+const assertCanManageRoles = async (organizationId: string, actor: Actor, roles: OrganizationRole[]): Promise<void> => {
+    if (!roles.includes(OrganizationRole.OWNER)) {
+        return;
+    }
+    if (await canManageOrganizations(actor)) {
+        return;
+    }
+    const membership = await getMembership(organizationId, actor.id);
+    if (membership?.role !== OrganizationRole.OWNER) {
+        throw new ApiError(httpStatus.FORBIDDEN, 'Only owners can grant or change the OWNER role');
+    }
+};
+
+/**
+ * An organization keeps at least one owner
+ * @param {Membership} membership - membership losing its owner role
+ * @returns {Promise<void>}
+ */
+const assertNotLastOwner = async (membership: Membership): Promise<void> => {
+    if (membership.role !== OrganizationRole.OWNER) {
+        return;
+    }
+    const owners = await prisma.membership.count({
+        where: { organizationId: membership.organizationId, role: OrganizationRole.OWNER }
+    });
+    if (owners <= 1) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'An organization needs at least one owner');
+    }
+};
+
+/**
+ * Query the members of an organization
+ * @param {string} organizationId
+ * @returns {Promise<MemberResponse[]>}
+ */
+const queryMembers = async (organizationId: string): Promise<MemberResponse[]> => {
+    const memberships = await prisma.membership.findMany({
+        where: { organizationId, user: { isDeleted: false } },
+        include: { user: { select: { email: true, name: true } } },
+        orderBy: { createdAt: 'asc' }
+    });
+    return memberships.map(membership => ({
+        userId: membership.userId,
+        email: membership.user.email,
+        name: membership.user.name,
+        role: membership.role,
+        createdAt: membership.createdAt
+    }));
+};
+
+/**
+ * Get a membership, or throw
+ * @param {string} organizationId
+ * @param {string} userId
+ * @returns {Promise<Membership>}
+ */
+const getExistingMembership = async (organizationId: string, userId: string): Promise<Membership> => {
+    const membership = await getMembership(organizationId, userId);
+    if (!membership) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Member not found');
+    }
+    return membership;
+};
+
+/**
+ * Add a user to an organization, a former membership is restored
+ * @param {string} organizationId
+ * @param {string} userId
+ * @param {OrganizationRole} role
+ * @returns {Promise<void>}
+ */
+const addMember = async (organizationId: string, userId: string, role: OrganizationRole): Promise<void> => {
+    if (await getMembership(organizationId, userId)) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Already a member of the organization');
+    }
+    const { count } = await prisma.membership.updateMany({
+        where: { organizationId, userId, isDeleted: true },
+        data: { isDeleted: false, role }
+    });
+    if (!count) {
+        await prisma.membership.create({ data: { organizationId, userId, role } });
+    }
+};
+
+/**
+ * Change the role of a member
+ * @param {string} organizationId
+ * @param {string} userId
+ * @param {OrganizationRole} role
+ * @param {Actor} actor - the user making the change
+ * @returns {Promise<MemberResponse>}
+ */
+const updateMemberRole = async (
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    actor: Actor
+): Promise<MemberResponse> => {
+    const membership = await getExistingMembership(organizationId, userId);
+    await assertCanManageRoles(organizationId, actor, [membership.role, role]);
+    if (role !== OrganizationRole.OWNER) {
+        await assertNotLastOwner(membership);
+    }
+    await prisma.membership.update({ where: { id: membership.id }, data: { role } });
+    const members = await queryMembers(organizationId);
+    return members.find(member => member.userId === userId)!;
+};
+
+/**
+ * Remove a member from an organization, or leave it
+ * @param {string} organizationId
+ * @param {string} userId
+ * @param {Actor} actor - the user making the change
+ * @returns {Promise<void>}
+ */
+const removeMember = async (organizationId: string, userId: string, actor: Actor): Promise<void> => {
+    const membership = await getExistingMembership(organizationId, userId);
+    // Owners may leave, as long as another owner remains
+    if (actor.id !== userId) {
+        await assertCanManageRoles(organizationId, actor, [membership.role]);
+    }
+    await assertNotLastOwner(membership);
+    await prisma.membership.update({ where: { id: membership.id }, data: { isDeleted: true } });
+};
+
+/**
+ * Invite someone to an organization by email
+ * @param {string} organizationId
+ * @param {string} email
+ * @param {OrganizationRole} role
+ * @param {Actor} invitedBy
+ * @returns {Promise<Invitation>}
+ */
+const createInvitation = async (
+    organizationId: string,
+    email: string,
+    role: OrganizationRole,
+    invitedBy: Actor
+): Promise<Omit<Invitation, 'token'>> => {
+    const organization = await getExistingOrganization(organizationId);
+    await assertCanManageRoles(organizationId, invitedBy, [role]);
+    const existingMember = await prisma.membership.findFirst({
+        where: { organizationId, user: { email, isDeleted: false } }
+    });
+    if (existingMember) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Already a member of the organization');
+    }
+    const { token, ...invitation } = await prisma.invitation.create({
+        data: {
+            organizationId,
+            email,
+            role,
+            token: getRandomString('alphanumeric', INVITATION_TOKEN_LENGTH),
+            expires: moment().add(config.invitation.expirationDays, 'days').toDate(),
+            invitedById: invitedBy.id
+        }
+    });
+    await emailService.sendInvitationEmail(email, organization.name, token);
+    return invitation;
+};
+
+/**
+ * Query the pending invitations of an organization
+ * @param {string} organizationId
+ * @returns {Promise<Invitation[]>}
+ */
+const queryInvitations = async (organizationId: string): Promise<Omit<Invitation, 'token'>[]> => {
+    return await prisma.invitation.findMany({
+        where: { organizationId, acceptedAt: null, expires: { gt: new Date() } },
+        omit: { token: true },
+        orderBy: { createdAt: 'desc' }
+    });
+};
+
+/**
+ * Revoke (soft delete) a pending invitation
+ * @param {string} organizationId
+ * @param {number} invitationId
+ * @returns {Promise<void>}
+ */
+const revokeInvitation = async (organizationId: string, invitationId: number): Promise<void> => {
+    const { count } = await prisma.invitation.updateMany({
+        where: { id: invitationId, organizationId, acceptedAt: null },
+        data: { isDeleted: true }
+    });
+    if (!count) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Invitation not found');
+    }
+};
+
+/**
+ * Accept an invitation, it must have been sent to the email of the user
+ * @param {string} token
+ * @param {Pick<User, 'id' | 'email'>} user
+ * @returns {Promise<OrganizationResponse>}
+ */
+const acceptInvitation = async (token: string, user: Pick<User, 'id' | 'email'>): Promise<OrganizationResponse> => {
+    const invitation = await prisma.invitation.findFirst({
+        where: { token, acceptedAt: null, expires: { gt: new Date() }, organization: { isDeleted: false } },
+        include: { organization: true }
+    });
+    if (!invitation) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Invalid or expired invitation');
+    }
+    if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+        throw new ApiError(httpStatus.FORBIDDEN, 'The invitation was sent to another email');
+    }
+    await addMember(invitation.organizationId, user.id, invitation.role);
+    await prisma.invitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } });
+    return toOrganizationResponse(invitation.organization, invitation.role);
+};
+
+export default {
+    createOrganization,
+    queryOrganizations,
+    getOrganizationById,
+    updateOrganizationById,
+    deleteOrganizationById,
+    getMembership,
+    resolveTenant,
+    queryMembers,
+    addMember,
+    updateMemberRole,
+    removeMember,
+    createInvitation,
+    queryInvitations,
+    revokeInvitation,
+    acceptInvitation
+};
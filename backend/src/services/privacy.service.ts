@@ -0,0 +1,203 @@
+import prisma from '../client.ts';
+import logger from '../config/logger.ts';
+import { Prisma } from '../generated/prisma/index.js';
+import { getInstance as getStorage, isStorageConfigured } from '../storage/index.ts';
+import { AuditEventType } from '../types/audit.ts';
+import { DataExportResponse } from '../types/response.ts';
+import ApiError from '../utils/ApiError.ts';
+import { getRandomString } from '../utils/string.ts';
+import { TarEntry, createTarGz } from '../utils/tar.ts';
+import auditService from './audit.service.ts';
+import httpStatus from 'http-status';
+import { v4 as uuid } from 'uuid';
+
+// The .invalid top level domain never resolves, erased users keep a unique but unusable email
+const ERASED_EMAIL_DOMAIN = 'erased.invalid';
+// Erased users are processed in batches by each run of the erasure job
+const ERASURE_BATCH_SIZE = 50;
+
+/**
+ * Storage folder of the files uploaded by a user
+ * @param {string} userId
+ * @returns {string}
+ */
+const getUserFilesPrefix = (userId: string): string => `users/${userId}/`;
+
+/**
+ * Storage folder of the data exports of a user
+ * @param {string} userId
+ * @returns {string}
+ */
+const getExportsPrefix = (userId: string): string => `exports/${userId}/`;
+
+const getExportKey = (userId: string, exportId: string): string => `${getExportsPrefix(userId)}${exportId}.tar.gz`;
+
+/**
+ * Get a download URL of a data export
+ * @param {string} userId
+ * @param {string} exportId
+ * @returns {Promise<DataExportResponse>}
+ */
+const getDataExport = async (userId: string, exportId: string): Promise<DataExportResponse> => {
+    if (!isStorageConfigured()) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Data export not found');
+    }
+    const storage = getStorage();
+    const key = getExportKey(userId, exportId);
+    if (!(await storage.documentExists({ key }))) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Data export not found');
+    }
+    const url = await storage.generateDownloadSignedUrl({ key, fileName: `data-export-${exportId}.tar.gz` });
+    return { id: exportId, url };
+};
+
+/**
+ * Collect the personal data of a user: profile, tokens without their values, audit events, and uploaded files
+ * @param {string} userId
+ * @returns {Promise<TarEntry[]>}
+ */
+const collectUserData = async (userId: string): Promise<TarEntry[]> => {
+    const profile = await prisma.user.findFirst({
+        where: { id: userId },
+        omit: { password: true, twoFactorSecret: true, twoFactorRecoveryCodes: true, twoFactorLastUsedStep: true },
+        include: {
+            LinkedIdentity: { select: { provider: true, email: true, createdAt: true } },
+            Membership: { select: { organizationId: true, role: true, createdAt: true } }
+        }
+    });
+    if (!profile) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    const [tokens, apiKeys, auditEvents] = await Promise.all([
+        prisma.token.findMany({
+            where: { userId },
+            omit: { token: true },
+            orderBy: { createdAt: 'asc' }
+        }),
+        prisma.apiKey.findMany({ where: { userId }, omit: { hashedKey: true }, orderBy: { createdAt: 'asc' } }),
+        prisma.auditEvent.findMany({
+            where: { OR: [{ actorId: userId }, { targetId: userId }] },
+            orderBy: { createdAt: 'asc' }
+        })
+    ]);
+    const toJson = (data: unknown) => JSON.stringify(data, null, 2);
+    const entries: TarEntry[] = [
+        { name: 'profile.json', data: toJson(profile) },
+        { name: 'tokens.json', data: toJson(tokens) },
+        { name: 'api-keys.json', data: toJson(apiKeys) },
+        { name: 'audit-events.json', data: toJson(auditEvents) }
+    ];
+    if (isStorageConfigured()) {
+        const storage = getStorage();
+        const prefix = getUserFilesPrefix(userId);
+        for (const key of await storage.listFiles({ prefix })) {
+            entries.push({ name: `files/${key.slice(prefix.length)}`, data: await storage.getData({ key }) });
+        }
+    }
+    return entries;
+};
+
+/**
+ * Export the personal data of a user into an archive kept with the other files of the user
+ * @param {string} userId
+ * @returns {Promise<DataExportResponse>}
+ */
+const createDataExport = async (userId: string): Promise<DataExportResponse> => {
+    if (!isStorageConfigured()) {
+        throw new ApiError(httpStatus.SERVICE_UNAVAILABLE, 'Data exports are not available');
+    }
+    const entries = await collectUserData(userId);
+    const exportId = uuid();
+    await getStorage().uploadData({
+        data: createTarGz(entries.map(entry => ({ ...entry, name: `data-export/${entry.name}` }))),
+        destinationKey: getExportKey(userId, exportId),
+        contentType: 'application/gzip'
+    });
+    await auditService.recordEvent(AuditEventType.DATA_EXPORT, { targetId: userId, metadata: { exportId } });
+    return await getDataExport(userId, exportId);
+};
+
+/**
+ * Erase the personal data of a deleted user: the user row is anonymized, its tokens, keys, identities,
+ * memberships and OAuth authorization codes are purged and its stored files removed.
+ * Audit events are kept without their diffs, IP addresses and user agents.
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const eraseUser = async (userId: string): Promise<void> => {
+    if (isStorageConfigured()) {
+        const storage = getStorage();
+        const keys = [
+            ...(await storage.listFiles({ prefix: getUserFilesPrefix(userId) })),
+            ...(await storage.listFiles({ prefix: getExportsPrefix(userId) }))
+        ];
+        for (const key of keys) {
+            await storage.deleteFile({ key });
+        }
+    }
+    // isDeleted: undefined overrides the soft delete filter, soft deleted rows are purged too
+    const ofUser = { userId, isDeleted: undefined };
+    await prisma.$transaction([
+        prisma.token.deleteMany({ where: ofUser }),
+        prisma.passwordHistory.deleteMany({ where: ofUser }),
+        prisma.linkedIdentity.deleteMany({ where: ofUser }),
+        prisma.apiKey.deleteMany({ where: ofUser }),
+        prisma.membership.deleteMany({ where: ofUser }),
+        prisma.oAuthAuthorizationCode.deleteMany({ where: ofUser }),
+        prisma.auditEvent.updateMany({
+            where: { OR: [{ actorId: userId }, { targetId: userId }], isDeleted: undefined },
+            data: { diff: Prisma.DbNull, ipAddress: null, userAgent: null }
+        }),
+        prisma.invitation.updateMany({
+            where: { invitedById: userId, isDeleted: undefined },
+            data: { invitedById: null }
+        }),
+        prisma.user.update({
+            where: { id: userId, isDeleted: true },
+            data: {
+                email: `${userId}@${ERASED_EMAIL_DOMAIN}`,
+                name: null,
+                // Not a hash, no password matches it
+                password: getRandomString('alphanumeric', 32),
+                isTwoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorLastUsedStep: null,
+                twoFactorRecoveryCodes: [],
+                erasureScheduledAt: null,
+                erasedAt: new Date()
+            }
+        })
+    ]);
+    await auditService.recordEvent(AuditEventType.USER_ERASURE, { actorId: null, targetId: userId });
+};
+
+/**
+ * Erase the deleted users whose grace period ended, run periodically by the erasure job
+ * A failed erasure is logged and retried by the next run
+ * @returns {Promise<number>} number of erased users
+ */
+const eraseDueUsers = async (): Promise<number> => {
+    const users = await prisma.user.findMany({
+        where: { isDeleted: true, erasedAt: null, erasureScheduledAt: { lte: new Date() } },
+        select: { id: true },
+        orderBy: { erasureScheduledAt: 'asc' },
+        take: ERASURE_BATCH_SIZE
+    });
+    let erasedCount = 0;
+    for (const { id } of users) {
+        try {
+            await eraseUser(id);
+            erasedCount += 1;
+        } catch (error) {
+            logger.error(`Erasure of user ${id} failed: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return erasedCount;
+};
+
+export default {
+    createDataExport,
+    getDataExport,
+    eraseUser,
+    eraseDueUsers
+};
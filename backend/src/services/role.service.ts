@@ -0,0 +1,218 @@
+import prisma from '../client.ts';
+import config from '../config/config.ts';
+import { RoleName, builtInRoles } from '../config/roles.ts';
+import { Permission } from '../generated/prisma/index.js';
+import { RoleResponse } from '../types/response.ts';
+import ApiError from '../utils/ApiError.ts';
+import httpStatus from 'http-status';
+
+// Rights of each role, cached to keep the database out of every authenticated request.
+// Changes are applied at once on this instance and after the cache TTL on the others.
+const permissionCache = new Map<string, { permissions: string[]; expires: number }>();
+
+const roleSelect = {
+    name: true,
+    description: true,
+    createdAt: true,
+    updatedAt: true,
+    RolePermission: { where: { isDeleted: false }, select: { permissionName: true } }
+};
+
+/**
+ * Get the rights of a role
+ * @param {string} roleName
+ * @returns {Promise<string[]>}
+ */
+const getRolePermissions = async (roleName: string): Promise<string[]> => {
+    const cached = permissionCache.get(roleName);
+    if (cached && cached.expires > Date.now()) {
+        return cached.permissions;
+    }
+    const rolePermissions = await prisma.rolePermission.findMany({
+        where: { roleName, role: { isDeleted: false }, permission: { isDeleted: false } },
+        select: { permissionName: true }
+    });
+    const permissions = rolePermissions.map(rolePermission => rolePermission.permissionName);
+    permissionCache.set(roleName, { permissions, expires: Date.now() + config.permissions.cacheTtlSeconds * 1000 });
+    return permissions;
+};
+
+/**
+ * Check that a role has all the required rights
+ * @param {string} roleName
+ * @param {string[]} requiredRights
+ * @returns {Promise<boolean>}
+ */
+const hasPermissions = async (roleName: string, requiredRights: string[]): Promise<boolean> => {
+    if (!requiredRights.length) {
+        return true;
+    }
+    const permissions = await getRolePermissions(roleName);
+    return requiredRights.every(requiredRight => permissions.includes(requiredRight));
+};
+
+/**
+ * Query for roles
+ * @returns {Promise<RoleResponse[]>}
+ */
+const queryRoles = async (): Promise<RoleResponse[]> => {
+    const roles = await prisma.role.findMany({ select: roleSelect, orderBy: { name: 'asc' } });
+    return roles.map(({ RolePermission, ...role }) => ({
+        ...role,
+        permissions: RolePermission.map(rolePermission => rolePermission.permissionName)
+    }));
+};
+
+/**
+ * Get role by name
+ * @param {string} name
+ * @returns {Promise<RoleResponse | null>}
+ */
+const getRoleByName = async (name: string): Promise<RoleResponse | null> => {
+    const role = await prisma.role.findFirst({ where: { name }, select: roleSelect });
+    if (!role) {
+        return null;
+    }
+    const { RolePermission, ...rest } = role;
+    return { ...rest, permissions: RolePermission.map(rolePermission => rolePermission.permissionName) };
+};
+
+/**
+ * Get role by name, or throw
+ * @param {string} name
+ * @returns {Promise<RoleResponse>}
+ */
+const getExistingRole = async (name: string): Promise<RoleResponse> => {
+    const role = await getRoleByName(name);
+    if (!role) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Role not found');
+    }
+    return role;
+};
+
+/**
+ * Check that permissions exist
+ * @param {string[]} permissionNames
+ * @returns {Promise<void>}
+ */
+const assertPermissionsExist = async (permissionNames: string[]): Promise<void> => {
+    const permissions = await prisma.permission.findMany({
+        where: { name: { in: permissionNames } },
+        select: { name: true }
+    });
+    const unknown = permissionNames.filter(name => !permissions.some(permission => permission.name === name));
+    if (unknown.length) {
+        throw new ApiError(httpStatus.BAD_REQUEST, `Unknown permission: ${unknown.join(', ')}`);
+    }
+};
+
+/**
+ * Create a role
+ * @param {string} name
+ * @param {string} [description]
+ * @param {string[]} [permissions]
+ * @returns {Promise<RoleResponse>}
+ */
+const createRole = async (name: string, description?: string, permissions: string[] = []): Promise<RoleResponse> => {
+    if (await getRoleByName(name)) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Role already exists');
+    }
+    await assertPermissionsExist(permissions);
+    // Role names are primary keys, a deleted role is restored rather than created again
+    const { count } = await prisma.role.updateMany({
+        where: { name, isDeleted: true },
+        data: { isDeleted: false, description: description ?? null }
+    });
+    if (!count) {
+        await prisma.role.create({ data: { name, description } });
+    }
+    await prisma.rolePermission.createMany({
+        data: permissions.map(permissionName => ({ roleName: name, permissionName }))
+    });
+    permissionCache.delete(name);
+    return getExistingRole(name);
+};
+
+/**
+ * Update role by name
+ * @param {string} name
+ * @param {Object} updateBody
+ * @returns {Promise<RoleResponse>}
+ */
+const updateRoleByName = async (name: string, updateBody: { description?: string | null }): Promise<RoleResponse> => {
+    await getExistingRole(name);
+    await prisma.role.update({ where: { name }, data: updateBody });
+    return getExistingRole(name);
+};
+
+/**
+ * Delete role by name (soft delete), only when no user has it
+ * @param {string} name
+ * @returns {Promise<void>}
+ */
+const deleteRoleByName = async (name: string): Promise<void> => {
+    await getExistingRole(name);
+    if (builtInRoles.includes(name)) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Built-in roles cannot be deleted');
+    }
+    if (await prisma.user.count({ where: { role: name } })) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Role is assigned to users');
+    }
+    await prisma.rolePermission.deleteMany({ where: { roleName: name } });
+    await prisma.role.update({ where: { name }, data: { isDeleted: true } });
+    permissionCache.delete(name);
+};
+
+/**
+ * Query for permissions
+ * @returns {Promise<Permission[]>}
+ */
+const queryPermissions = async (): Promise<Pick<Permission, 'name' | 'description'>[]> => {
+    return await prisma.permission.findMany({ select: { name: true, description: true }, orderBy: { name: 'asc' } });
+};
+
+/**
+ * Attach a permission to a role
+ * @param {string} roleName
+ * @param {string} permissionName
+ * @returns {Promise<RoleResponse>}
+ */
+const attachPermission = async (roleName: string, permissionName: string): Promise<RoleResponse> => {
+    const role = await getExistingRole(roleName);
+    await assertPermissionsExist([permissionName]);
+    if (!role.permissions.includes(permissionName)) {
+        await prisma.rolePermission.create({ data: { roleName, permissionName } });
+        permissionCache.delete(roleName);
+    }
+    return getExistingRole(roleName);
+};
+
+/**
+ * Detach a permission from a role
+ * @param {string} roleName
+ * @param {string} permissionName
+ * @returns {Promise<RoleResponse>}
+ */
+const detachPermission = async (roleName: string, permissionName: string): Promise<RoleResponse> => {
+    await getExistingRole(roleName);
+    // Otherwise nobody could manage roles anymore
+    if (roleName === RoleName.ADMIN && permissionName === 'manageRoles') {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'The ADMIN role cannot lose the manageRoles permission');
+    }
+    await prisma.rolePermission.deleteMany({ where: { roleName, permissionName } });
+    permissionCache.delete(roleName);
+    return getExistingRole(roleName);
+};
+
+export default {
+    getRolePermissions,
+    hasPermissions,
+    queryRoles,
+    getRoleByName,
+    createRole,
+    updateRoleByName,
+    deleteRoleByName,
+    queryPermissions,
+    attachPermission,
+    detachPermission
+};
@@ -0,0 +1,107 @@
+import prisma from '../client.ts';
+import { TokenType } from '../generated/prisma/index.js';
+import { SessionResponse } from '../types/response.ts';
+import ApiError from '../utils/ApiError.ts';
+import tokenService from './token.service.ts';
+import httpStatus from 'http-status';
+
+/**
+ * Query the active sessions (unrotated refresh tokens) of a user
+ * @param {string} userId
+ * @returns {Promise<SessionResponse[]>}
+ */
+const querySessions = async (userId: string): Promise<SessionResponse[]> => {
+    const tokens = await prisma.token.findMany({
+        where: { userId, type: TokenType.REFRESH, blacklisted: false, expires: { gt: new Date() } },
+        select: {
+            id: true,
+            family: true,
+            deviceName: true,
+            userAgent: true,
+            ipAddress: true,
+            createdAt: true,
+            lastUsedAt: true
+        },
+        orderBy: { createdAt: 'desc' }
+    });
+
+    // A session starts with the first refresh token of its family
+    const families = tokens.map(token => token.family).filter((family): family is string => !!family);
+    const familyStarts = await prisma.token.groupBy({
+        by: ['family'],
+        where: { family: { in: families } },
+        _min: { createdAt: true }
+    });
+    const startedAt = new Map(familyStarts.map(group => [group.family, group._min.createdAt]));
+
+    return tokens.map(({ family, ...token }) => ({
+        ...token,
+        createdAt: (family && startedAt.get(family)) || token.createdAt
+    }));
+};
+
+/**
+ * Get an active session of a user
+ * @param {string} userId
+ * @param {number} sessionId
+ * @returns {Promise<Token>}
+ */
+const getSessionById = async (userId: string, sessionId: number) => {
+    const session = await prisma.token.findFirst({
+        where: { id: sessionId, userId, type: TokenType.REFRESH, blacklisted: false }
+    });
+    if (!session) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Session not found');
+    }
+    return session;
+};
+
+/**
+ * Revoke a session of a user
+ * @param {string} userId
+ * @param {number} sessionId
+ * @returns {Promise<void>}
+ */
+const revokeSession = async (userId: string, sessionId: number): Promise<void> => {
+    const session = await getSessionById(userId, sessionId);
+    await tokenService.revokeTokenFamily(session);
+};
+
+/**
+ * Revoke every session of a user, except the one of the given refresh token
+ * @param {string} userId
+ * @param {string} [currentRefreshToken]
+ * @returns {Promise<void>}
+ */
+const revokeSessions = async (userId: string, currentRefreshToken?: string): Promise<void> => {
+    if (!currentRefreshToken) {
+        await prisma.token.updateMany({
+            where: { userId, type: TokenType.REFRESH },
+            data: { isDeleted: true }
+        });
+        return;
+    }
+
+    const currentSession = await prisma.token.findFirst({
+        where: { token: currentRefreshToken, userId, type: TokenType.REFRESH, blacklisted: false }
+    });
+    if (!currentSession) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'Session not found');
+    }
+    await prisma.token.updateMany({
+        where: {
+            userId,
+            type: TokenType.REFRESH,
+            id: { not: currentSession.id },
+            OR: currentSession.family ? [{ family: null }, { family: { not: currentSession.family } }] : undefined
+        },
+        data: { isDeleted: true }
+    });
+};
+
+export default {
+    querySessions,
+    getSessionById,
+    revokeSession,
+    revokeSessions
+};
@@ -1,12 +1,18 @@
 import prisma from '../client.ts';
 import config from '../config/config.ts';
 import { Token, TokenType } from '../generated/prisma/index.js';
-import { AuthTokensResponse } from '../types/response.ts';
-import ApiError from '../utils/ApiError.ts';
+import { getInstance as getRevocationStore } from '../revocation/index.ts';
+import { MagicLinkType } from '../types/magicLink.ts';
+import { AuthTokensResponse, TokenResponse } from '../types/response.ts';
+import { SessionMetadata } from '../types/session.ts';
+import { getRandomString } from '../utils/string.ts';
 import userService from './user.service.ts';
-import httpStatus from 'http-status';
 import jwt from 'jsonwebtoken';
 import moment, { Moment } from 'moment';
+import { v4 as uuid } from 'uuid';
+
+const MAGIC_LINK_CODE_LENGTH = 6;
+const MAGIC_LINK_TOKEN_LENGTH = 32;
 
 /**
  * Generate token
@@ -14,14 +20,23 @@ import moment, { Moment } from 'moment';
  * @param {Moment} expires
  * @param {string} type
  * @param {string} [secret]
+ * @param {Object} [claims] - additional claims, like the organization of access tokens
  * @returns {string}
  */
-const generateToken = (userId: string, expires: Moment, type: TokenType, secret = config.jwt.secret): string => {
+const generateToken = (
+    userId: string,
+    expires: Moment,
+    type: TokenType,
+    secret = config.jwt.secret,
+    claims: Record<string, unknown> = {}
+): string => {
     const payload = {
+        ...claims,
         sub: userId,
         iat: moment().unix(),
         exp: expires.unix(),
-        type
+        type,
+        jti: uuid()
     };
     return jwt.sign(payload, secret);
 };
@@ -33,6 +48,7 @@ const generateToken = (userId: string, expires: Moment, type: TokenType, secret
  * @param {Moment} expires
  * @param {string} type
  * @param {boolean} [blacklisted]
+ * @param {SessionMetadata} [session] - refresh token family and device details
  * @returns {Promise<Token>}
  */
 const saveToken = async (
@@ -40,7 +56,8 @@ const saveToken = async (
     userId: string,
     expires: Moment,
     type: TokenType,
-    blacklisted = false
+    blacklisted = false,
+    session: SessionMetadata = {}
 ): Promise<Token> => {
     const createdToken = await prisma.token.create({
         data: {
@@ -48,7 +65,8 @@ const saveToken = async (
             userId,
             expires: expires.toDate(),
             type,
-            blacklisted
+            blacklisted,
+            ...session
         }
     });
     return createdToken;
@@ -60,7 +78,7 @@ const saveToken = async (
  * @param {string} type
  * @returns {Promise<Token>}
  */
-const verifyToken = async (token: string, type: TokenType): Promise<Token> => {
+const verifyToken = async (token: string, type: TokenType): Promise<Token & { userId: string }> => {
     const payload = jwt.verify(token, config.jwt.secret);
     const userId = String(payload.sub);
     const tokenData = await prisma.token.findFirst({
@@ -69,21 +87,30 @@ const verifyToken = async (token: string, type: TokenType): Promise<Token> => {
     if (!tokenData) {
         throw new Error('Token not found');
     }
-    return tokenData;
+    return tokenData as Token & { userId: string };
 };
 
 /**
  * Generate auth tokens
  * @param {User} user
+ * @param {SessionMetadata} [session] - a new refresh token family is started when no family is given,
+ * the access token carries the organization of the session in its org claim,
+ * and the MCP resource in its aud claim when issued to an OAuth client
  * @returns {Promise<AuthTokensResponse>}
  */
-const generateAuthTokens = async (user: { id: string }): Promise<AuthTokensResponse> => {
+const generateAuthTokens = async (user: { id: string }, session: SessionMetadata = {}): Promise<AuthTokensResponse> => {
     const accessTokenExpires = moment().add(config.jwt.accessExpirationMinutes, 'minutes');
-    const accessToken = generateToken(user.id, accessTokenExpires, TokenType.ACCESS);
+    const accessToken = generateToken(user.id, accessTokenExpires, TokenType.ACCESS, config.jwt.secret, {
+        ...(session.organizationId && { org: session.organizationId }),
+        ...(session.clientId && { aud: config.oauthServer.resource, client_id: session.clientId })
+    });
 
     const refreshTokenExpires = moment().add(config.jwt.refreshExpirationDays, 'days');
     const refreshToken = generateToken(user.id, refreshTokenExpires, TokenType.REFRESH);
-    await saveToken(refreshToken, user.id, refreshTokenExpires, TokenType.REFRESH);
+    await saveToken(refreshToken, user.id, refreshTokenExpires, TokenType.REFRESH, false, {
+        ...session,
+        family: session.family ?? uuid()
+    });
 
     return {
         access: {
@@ -97,15 +124,50 @@ const generateAuthTokens = async (user: { id: string }): Promise<AuthTokensRespo
     };
 };
 
+/**
+ * Revoke (soft delete) every token of a refresh token family
+ * @param {Token} token - any token of the family
+ * @returns {Promise<void>}
+ */
+const revokeTokenFamily = async (token: Pick<Token, 'id' | 'family'>): Promise<void> => {
+    await prisma.token.updateMany({
+        where: token.family ? { family: token.family } : { id: token.id },
+        data: { isDeleted: true }
+    });
+};
+
+/**
+ * Revoke an access token before it expires
+ * @param {string} accessToken
+ * @returns {Promise<void>}
+ */
+const revokeAccessToken = async (accessToken: string): Promise<void> => {
+    const payload = jwt.verify(accessToken, config.jwt.secret) as jwt.JwtPayload;
+    if (!payload.jti || !payload.exp) {
+        return;
+    }
+    await getRevocationStore().revokeToken({ jti: payload.jti, expires: moment.unix(payload.exp).toDate() });
+};
+
+/**
+ * Revoke every access token issued to a user so far
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const revokeUserAccessTokens = async (userId: string): Promise<void> => {
+    const expires = moment().add(config.jwt.accessExpirationMinutes, 'minutes');
+    await getRevocationStore().revokeUserTokens({ userId, expires: expires.toDate() });
+};
+
 /**
  * Generate reset password token
  * @param {string} email
- * @returns {Promise<string>}
+ * @returns {Promise<string | null>} null when no user has the email
  */
-const generateResetPasswordToken = async (email: string): Promise<string> => {
-    const user = await userService.getUserByEmail(email);
+const generateResetPasswordToken = async (email: string): Promise<string | null> => {
+    const user = await userService.getUserByEmail(email, ['id']);
     if (!user) {
-        throw new ApiError(httpStatus.NOT_FOUND, 'No users found with this email');
+        return null;
     }
     const expires = moment().add(config.jwt.resetPasswordExpirationMinutes, 'minutes');
     const resetPasswordToken = generateToken(user.id, expires, TokenType.RESET_PASSWORD);
@@ -125,11 +187,91 @@ const generateVerifyEmailToken = async (user: { id: string }): Promise<string> =
     return verifyEmailToken;
 };
 
+/**
+ * Generate the token confirming a change of email, sent to the new email
+ * @param {User} user
+ * @param {string} email - new email
+ * @returns {Promise<string>}
+ */
+const generateChangeEmailToken = async (user: { id: string }, email: string): Promise<string> => {
+    const expires = moment().add(config.jwt.verifyEmailExpirationMinutes, 'minutes');
+    const changeEmailToken = generateToken(user.id, expires, TokenType.CHANGE_EMAIL);
+    await prisma.token.create({
+        data: {
+            token: changeEmailToken,
+            userId: user.id,
+            email,
+            expires: expires.toDate(),
+            type: TokenType.CHANGE_EMAIL,
+            blacklisted: false
+        }
+    });
+    return changeEmailToken;
+};
+
+/**
+ * Generate the two-factor challenge token of a password login
+ * @param {User} user
+ * @returns {Promise<string>}
+ */
+const generateMfaToken = async (user: { id: string }): Promise<string> => {
+    const expires = moment().add(config.jwt.mfaExpirationMinutes, 'minutes');
+    const mfaToken = generateToken(user.id, expires, TokenType.MFA);
+    await saveToken(mfaToken, user.id, expires, TokenType.MFA);
+    return mfaToken;
+};
+
+/**
+ * Generate a short-lived access token to act as a user, the act claim names the impersonating user.
+ * No refresh token is issued, the impersonation ends when the token expires.
+ * @param {string} userId - impersonated user
+ * @param {string} actorId - impersonating user
+ * @returns {TokenResponse}
+ */
+const generateImpersonationToken = (userId: string, actorId: string): TokenResponse => {
+    const expires = moment().add(config.jwt.impersonationExpirationMinutes, 'minutes');
+    const token = generateToken(userId, expires, TokenType.ACCESS, config.jwt.secret, { act: { sub: actorId } });
+    return { token, expires: expires.toDate() };
+};
+
+/**
+ * Generate single-use magic link login token, either a link token or a numeric code to type in
+ * @param {string} email
+ * @param {MagicLinkType} type
+ * @param {string} [userId] - omitted when the email has no account yet
+ * @returns {Promise<string>}
+ */
+const generateMagicLinkToken = async (email: string, type: MagicLinkType, userId?: string): Promise<string> => {
+    const expires = moment().add(config.magicLink.expirationMinutes, 'minutes');
+    const magicLinkToken =
+        type === MagicLinkType.CODE
+            ? getRandomString('numeric', MAGIC_LINK_CODE_LENGTH)
+            : getRandomString('alphanumeric', MAGIC_LINK_TOKEN_LENGTH);
+    await prisma.token.create({
+        data: {
+            token: magicLinkToken,
+            type: TokenType.MAGIC_LINK,
+            expires: expires.toDate(),
+            blacklisted: false,
+            userId,
+            email
+        }
+    });
+    return magicLinkToken;
+};
+
 export default {
     generateToken,
     saveToken,
     verifyToken,
     generateAuthTokens,
+    revokeTokenFamily,
+    revokeAccessToken,
+    revokeUserAccessTokens,
     generateResetPasswordToken,
-    generateVerifyEmailToken
+    generateVerifyEmailToken,
+    generateChangeEmailToken,
+    generateMfaToken,
+    generateImpersonationToken,
+    generateMagicLinkToken
 };
@@ -1,59 +1,174 @@
 import prisma from '../client.ts';
-import { Prisma, Role, User } from '../generated/prisma/index.js';
+import config from '../config/config.ts';
+import { RoleName } from '../config/roles.ts';
+import { Prisma, User } from '../generated/prisma/index.js';
+import { AuditEventType } from '../types/audit.ts';
+import { CursorPaginatedResponse, PaginatedResponse } from '../types/response.ts';
+import { USER_SORT_FIELDS, UserFilter } from '../types/user.ts';
 import ApiError from '../utils/ApiError.ts';
-import { encryptPassword } from '../utils/encryption.ts';
+import { decodeCursor, encodeCursor } from '../utils/cursor.ts';
+import { getDiff } from '../utils/diff.ts';
+import { encryptPassword, isPasswordMatch } from '../utils/encryption.ts';
+import pick from '../utils/pick.ts';
+import { parseSortBy } from '../utils/sortBy.ts';
+import { getRandomString } from '../utils/string.ts';
+import { getTenant, runWithoutTenant } from '../utils/tenant.ts';
+import auditService from './audit.service.ts';
+import roleService from './role.service.ts';
+import tokenService from './token.service.ts';
 import httpStatus from 'http-status';
+import moment from 'moment';
+import { v4 as uuid } from 'uuid';
+
+// The .invalid top level domain never resolves, no email can reach a service account
+const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-accounts.invalid';
+const SERVICE_ACCOUNT_PASSWORD_LENGTH = 64;
+
+/**
+ * Check whether an email is used by an account
+ * Emails are unique across organizations, deleted users keep theirs until their personal data is erased
+ * @param {string} email
+ * @returns {Promise<boolean>}
+ */
+const isEmailTaken = async (email: string): Promise<boolean> => {
+    // isDeleted: undefined overrides the soft delete filter
+    const user = await runWithoutTenant(
+        async () => await prisma.user.findFirst({ where: { email, isDeleted: undefined }, select: { id: true } })
+    );
+    return !!user;
+};
 
 /**
- * Create a user
+ * Create a user, a user created within an organization becomes a member of it
  * @param {Object} userBody
  * @returns {Promise<User>}
  */
-const createUser = async (email: string, password: string, name?: string, role: Role = Role.USER): Promise<User> => {
-    if (await getUserByEmail(email)) {
+const createUser = async (
+    email: string,
+    password: string,
+    name?: string,
+    role: string = RoleName.USER,
+    isServiceAccount = false
+): Promise<User> => {
+    if (await isEmailTaken(email)) {
         throw new ApiError(httpStatus.BAD_REQUEST, 'Email already taken');
     }
-    return prisma.user.create({
+    if (role !== RoleName.USER && !(await roleService.getRoleByName(role))) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Role not found');
+    }
+    const tenant = getTenant();
+    const user = await prisma.user.create({
         data: {
             email,
             name,
             password: await encryptPassword(password),
-            role
+            role,
+            isServiceAccount,
+            // Service accounts have no mailbox to verify
+            isEmailVerified: isServiceAccount,
+            Membership: tenant ? { create: { organizationId: tenant.organizationId } } : undefined
         }
     });
+    await auditService.recordEvent(AuditEventType.USER_CREATE, {
+        targetId: user.id,
+        diff: getDiff({}, { email, name, role, isServiceAccount, password: user.password }),
+        metadata: tenant ? { organizationId: tenant.organizationId } : undefined
+    });
+    return user;
+};
+
+/**
+ * Create a service account, its email and password are random and unusable, it authenticates with API keys
+ * @param {string} name
+ * @param {string} [role]
+ * @returns {Promise<User>}
+ */
+const createServiceAccount = async (name: string, role: string = RoleName.USER): Promise<User> => {
+    const email = `${uuid()}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`;
+    return await createUser(email, getRandomString('alphanumeric', SERVICE_ACCOUNT_PASSWORD_LENGTH), name, role, true);
+};
+
+/**
+ * Build the Prisma filter of a user query, name and email searches are partial and case-insensitive
+ * @param {UserFilter} filter
+ * @returns {Prisma.UserWhereInput}
+ */
+const getUserWhere = (filter: UserFilter): Prisma.UserWhereInput => {
+    const contains = (value?: string) => (value ? { contains: value, mode: Prisma.QueryMode.insensitive } : undefined);
+    return {
+        isDeleted: false,
+        name: contains(filter.name),
+        email: contains(filter.email),
+        role: filter.role,
+        isEmailVerified: filter.isEmailVerified,
+        createdAt:
+            filter.createdFrom || filter.createdTo ? { gte: filter.createdFrom, lte: filter.createdTo } : undefined,
+        OR: filter.search ? [{ name: contains(filter.search) }, { email: contains(filter.search) }] : undefined
+    };
 };
 
 /**
- * Query for users
- * @param {Object} filter - Prisma filter
+ * Query for users, scoped to the members of the organization of the request if any
+ * Pages are selected by a cursor returned by the previous page, or else by page number
+ * @param {UserFilter} filter
  * @param {Object} options - Query options
- * @param {string} [options.sortBy] - Sort option in the format: sortField:(desc|asc)
+ * @param {string} [options.sortBy] - Sort option in the format: sortField:(desc|asc), comma separated (default = createdAt:desc)
  * @param {number} [options.limit] - Maximum number of results per page (default = 10)
  * @param {number} [options.page] - Current page (default = 1)
- * @returns {Promise<QueryResult>}
+ * @param {string} [options.cursor] - nextCursor of the previous page
+ * @returns {Promise<PaginatedResponse | CursorPaginatedResponse>}
  */
 const queryUsers = async <Key extends keyof User>(
-    filter: object,
+    filter: UserFilter,
     options: {
         limit?: number;
         page?: number;
         sortBy?: string;
-        sortType?: 'asc' | 'desc';
+        cursor?: string;
     },
     keys: Key[] = ['id', 'email', 'name', 'password', 'role', 'isEmailVerified', 'createdAt', 'updatedAt'] as Key[]
-): Promise<Pick<User, Key>[]> => {
+): Promise<
+    (PaginatedResponse<Pick<User, Key>> & { nextCursor: string | null }) | CursorPaginatedResponse<Pick<User, Key>>
+> => {
     const page = options.page ?? 1;
     const limit = options.limit ?? 10;
-    const sortBy = options.sortBy;
-    const sortType = options.sortType ?? 'desc';
-    const users = await prisma.user.findMany({
-        where: { ...filter, isDeleted: false },
-        select: keys.reduce((obj, k) => ({ ...obj, [k]: true }), {}),
-        skip: page * limit,
-        take: limit,
-        orderBy: sortBy ? { [sortBy]: sortType } : undefined
-    });
-    return users as Pick<User, Key>[];
+    const sortOptions = options.sortBy
+        ? parseSortBy(options.sortBy, USER_SORT_FIELDS)
+        : [{ field: 'createdAt', order: 'desc' } as const];
+    if (!sortOptions) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid sortBy');
+    }
+    const cursorId = options.cursor ? decodeCursor(options.cursor).id : undefined;
+    if (options.cursor && typeof cursorId !== 'string') {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid cursor');
+    }
+    const where = getUserWhere(filter);
+    // The cursor user starts the page unless it no longer matches the filter, one more user tells if a page follows
+    const users = (await prisma.user.findMany({
+        where,
+        select: keys.reduce((obj, k) => ({ ...obj, [k]: true }), { id: true }),
+        orderBy: [...sortOptions.map(({ field, order }) => ({ [field]: order })), { id: 'asc' }],
+        ...(typeof cursorId === 'string'
+            ? { cursor: { id: cursorId }, take: limit + 2 }
+            : { skip: (page - 1) * limit, take: limit + 1 })
+    })) as (Pick<User, Key> & { id: string })[];
+    if (users[0]?.id === cursorId) {
+        users.shift();
+    }
+    const results = users.slice(0, limit);
+    const nextCursor = users.length > limit ? encodeCursor({ id: results[results.length - 1].id }) : null;
+    if (options.cursor) {
+        return { results, limit, nextCursor };
+    }
+    const totalResults = await prisma.user.count({ where });
+    return {
+        results,
+        page,
+        limit,
+        totalPages: Math.ceil(totalResults / limit),
+        totalResults,
+        nextCursor
+    };
 };
 
 /**
@@ -88,34 +203,146 @@ const getUserByEmail = async <Key extends keyof User>(
     })) as Pick<User, Key> | null;
 };
 
+/**
+ * Reject a new password equal to the current one or one of the previous ones kept in the password history
+ * @param {Pick<User, 'id' | 'password'>} user
+ * @param {string} password - plain text new password
+ * @returns {Promise<void>}
+ */
+const assertPasswordNotReused = async (user: Pick<User, 'id' | 'password'>, password: string): Promise<void> => {
+    const { historySize } = config.password;
+    if (historySize <= 0) {
+        return;
+    }
+    const history = await prisma.passwordHistory.findMany({
+        where: { userId: user.id },
+        select: { password: true },
+        orderBy: { createdAt: 'desc' },
+        take: historySize - 1
+    });
+    for (const previousPassword of [user.password, ...history.map(entry => entry.password)]) {
+        if (await isPasswordMatch(password, previousPassword)) {
+            throw new ApiError(
+                httpStatus.BAD_REQUEST,
+                `Password must be different from the last ${historySize} passwords`
+            );
+        }
+    }
+};
+
+/**
+ * Keep a replaced password hash in the password history, dropping the entries past the history size
+ * @param {string} userId
+ * @param {string} password - hash of the replaced password
+ * @returns {Promise<void>}
+ */
+const addPasswordHistory = async (userId: string, password: string): Promise<void> => {
+    const { historySize } = config.password;
+    if (historySize <= 1) {
+        return;
+    }
+    await prisma.passwordHistory.create({ data: { userId, password } });
+    const expired = await prisma.passwordHistory.findMany({
+        where: { userId },
+        select: { id: true },
+        orderBy: { createdAt: 'desc' },
+        skip: historySize - 1
+    });
+    if (expired.length) {
+        await prisma.passwordHistory.deleteMany({ where: { id: { in: expired.map(entry => entry.id) } } });
+    }
+};
+
 /**
  * Update user by id
+ * A new password is given in plain text, checked against the password history and hashed
  * @param {ObjectId} userId
  * @param {Object} updateBody
  * @returns {Promise<User>}
  */
 const updateUserById = async <Key extends keyof User>(
     userId: string,
-    updateBody: Prisma.UserUpdateInput,
+    updateBody: Prisma.UserUncheckedUpdateInput,
     keys: Key[] = ['id', 'email', 'name', 'role'] as Key[]
 ): Promise<Pick<User, Key> | null> => {
-    const user = await getUserById(userId, ['id', 'email', 'name']);
+    const user = await getUserById(userId, ['id', 'email', 'name', 'password', 'role', 'isEmailVerified']);
     if (!user) {
         throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
     }
-    if (updateBody.email && (await getUserByEmail(updateBody.email as string))) {
+    if (updateBody.email && (await isEmailTaken(updateBody.email as string))) {
         throw new ApiError(httpStatus.BAD_REQUEST, 'Email already taken');
     }
+    if (typeof updateBody.role === 'string' && !(await roleService.getRoleByName(updateBody.role))) {
+        throw new ApiError(httpStatus.BAD_REQUEST, 'Role not found');
+    }
+    if (typeof updateBody.password === 'string') {
+        await assertPasswordNotReused(user, updateBody.password);
+        updateBody = { ...updateBody, password: await encryptPassword(updateBody.password) };
+    }
     const updatedUser = await prisma.user.update({
         where: { id: user.id },
         data: updateBody,
         select: keys.reduce((obj, k) => ({ ...obj, [k]: true }), {})
     });
+    if (updateBody.password) {
+        await addPasswordHistory(user.id, user.password);
+    }
+    if (updateBody.password || updateBody.role) {
+        await tokenService.revokeUserAccessTokens(user.id);
+    }
+    await auditService.recordEvent(AuditEventType.USER_UPDATE, {
+        targetId: user.id,
+        diff: getDiff(pick(user, Object.keys(updateBody)), updateBody)
+    });
     return updatedUser as Pick<User, Key> | null;
 };
 
+/**
+ * Verify the email of an unverified account for the owner of the email, proven by an OAuth provider or a magic link
+ * Anyone could have registered the account with the email, so its password, second factor, sessions and
+ * API keys are reset first: whoever registered it loses access
+ * @param {string} userId
+ * @returns {Promise<void>}
+ */
+const claimUnverifiedUser = async (userId: string): Promise<void> => {
+    const user = await getUserById(userId, ['id', 'password', 'isEmailVerified', 'isTwoFactorEnabled']);
+    if (!user) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    if (user.isEmailVerified) {
+        return;
+    }
+    // The account has no usable password until one is set with forgot password
+    const password = await encryptPassword(getRandomString('alphanumeric', 32));
+    await prisma.$transaction([
+        prisma.token.updateMany({ where: { userId }, data: { isDeleted: true } }),
+        prisma.apiKey.updateMany({ where: { userId }, data: { isDeleted: true } }),
+        prisma.user.update({
+            where: { id: userId },
+            data: {
+                password,
+                isEmailVerified: true,
+                isTwoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorLastUsedStep: null,
+                twoFactorRecoveryCodes: []
+            }
+        })
+    ]);
+    await tokenService.revokeUserAccessTokens(userId);
+    await auditService.recordEvent(AuditEventType.USER_UPDATE, {
+        targetId: userId,
+        diff: getDiff(pick(user, ['password', 'isEmailVerified', 'isTwoFactorEnabled']), {
+            password,
+            isEmailVerified: true,
+            isTwoFactorEnabled: false
+        })
+    });
+};
+
 /**
  * Delete user by id (soft delete)
+ * The personal data of the user is erased once the grace period ends, see privacyService.eraseDueUsers
  * @param {ObjectId} userId
  * @returns {Promise<User>}
  */
@@ -124,15 +351,48 @@ const deleteUserById = async (userId: string): Promise<User> => {
     if (!user) {
         throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
     }
-    await prisma.user.update({ where: { id: user.id }, data: { isDeleted: true } });
+    const erasureScheduledAt = moment().add(config.erasure.graceDays, 'days').toDate();
+    await prisma.user.update({ where: { id: user.id }, data: { isDeleted: true, erasureScheduledAt } });
+    await tokenService.revokeUserAccessTokens(user.id);
+    await auditService.recordEvent(AuditEventType.USER_DELETE, {
+        targetId: user.id,
+        diff: getDiff({ email: user.email, name: user.name, role: user.role }, {}),
+        metadata: { erasureScheduledAt }
+    });
     return user;
 };
 
+/**
+ * Restore a deleted user whose personal data is not erased yet
+ * @param {ObjectId} userId
+ * @returns {Promise<Pick<User, 'id' | 'email' | 'name' | 'role'>>}
+ */
+const restoreUserById = async (userId: string): Promise<Pick<User, 'id' | 'email' | 'name' | 'role'>> => {
+    const user = await prisma.user.findFirst({
+        where: { id: userId, isDeleted: true, erasedAt: null, erasureScheduledAt: { not: null } },
+        select: { id: true }
+    });
+    if (!user) {
+        throw new ApiError(httpStatus.NOT_FOUND, 'User not found');
+    }
+    const restoredUser = await prisma.user.update({
+        where: { id: user.id, isDeleted: true },
+        data: { isDeleted: false, erasureScheduledAt: null },
+        select: { id: true, email: true, name: true, role: true }
+    });
+    await auditService.recordEvent(AuditEventType.USER_RESTORE, { targetId: user.id });
+    return restoredUser;
+};
+
 export default {
     createUser,
+    createServiceAccount,
     queryUsers,
     getUserById,
     getUserByEmail,
+    isEmailTaken,
     updateUserById,
-    deleteUserById
+    claimUnverifiedUser,
+    deleteUserById,
+    restoreUserById
 };
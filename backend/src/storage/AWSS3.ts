@@ -119,6 +119,28 @@ export class AWSS3 extends BaseStorage {
         });
         await this.client.send(command);
     }
+    async listFiles(params: { prefix: string }): Promise<string[]> {
+        const { prefix } = params;
+        const basePathLength = this.getFullPath('').length;
+        const keys: string[] = [];
+        let continuationToken: string | undefined;
+        do {
+            const command = new ClientS3.ListObjectsV2Command({
+                Bucket: this.bucketName,
+                Prefix: this.getFullPath(prefix),
+                ContinuationToken: continuationToken
+            });
+            const response = await this.client.send(command);
+            for (const object of response.Contents ?? []) {
+                if (object.Key) {
+                    keys.push(object.Key.slice(basePathLength));
+                }
+            }
+            continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+        } while (continuationToken);
+        return keys;
+    }
+
     async generateUploadSignedUrl(params: {
         key: string;
         contentType?: string;
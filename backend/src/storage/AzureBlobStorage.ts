@@ -125,6 +125,17 @@ export class AzureBlobStorage extends BaseStorage {
         await blockBlobClient.delete();
     }
 
+    async listFiles(params: { prefix: string }): Promise<string[]> {
+        const { prefix } = params;
+        const basePathLength = this.getFullPath('').length;
+        const containerClient = this.blobServiceClient.getContainerClient(this.containerName);
+        const keys: string[] = [];
+        for await (const blob of containerClient.listBlobsFlat({ prefix: this.getFullPath(prefix) })) {
+            keys.push(blob.name.slice(basePathLength));
+        }
+        return keys;
+    }
+
     async generateUploadSignedUrl(params: {
         key: string;
         contentType?: string;
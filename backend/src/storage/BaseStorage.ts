@@ -9,6 +9,8 @@ export abstract class BaseStorage {
     abstract downloadDocument(params: { srcKey: string; destinationFilePath: string }): Promise<void>;
     abstract generateDownloadSignedUrl(params: { key: string; fileName?: string }): Promise<string>;
     abstract deleteFile(params: { key: string }): Promise<void>;
+    // Keys of the files starting with prefix, relative to the base path like the other keys
+    abstract listFiles(params: { prefix: string }): Promise<string[]>;
     abstract generateUploadSignedUrl(params: {
         key: string;
         contentType?: string;
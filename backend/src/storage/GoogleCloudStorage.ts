@@ -79,6 +79,13 @@ export class GoogleCloudStorage extends BaseStorage {
         await this.storage.bucket(this.bucketName).file(fullPath).delete();
     }
 
+    async listFiles(params: { prefix: string }): Promise<string[]> {
+        const { prefix } = params;
+        const basePathLength = this.getFullPath('').length;
+        const [files] = await this.storage.bucket(this.bucketName).getFiles({ prefix: this.getFullPath(prefix) });
+        return files.map(file => file.name.slice(basePathLength));
+    }
+
     async generateUploadSignedUrl(params: {
         key: string;
         contentType?: string;
@@ -29,6 +29,11 @@ export function getStorageProvider(params?: { storageProvider?: StorageProvider
     return storageProvider;
 }
 
+// Storage is optional, apps without files run without INFRA_PROVIDER
+export function isStorageConfigured(): boolean {
+    return !!process.env.INFRA_PROVIDER;
+}
+
 export function getInstance(params?: { storageProvider?: StorageProvider }): BaseStorage {
     const storageProvider = getStorageProvider(params);
 
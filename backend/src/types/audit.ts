@@ -0,0 +1,49 @@
+export enum AuditEventType {
+    LOGIN_SUCCESS = 'auth.login.success',
+    LOGIN_FAILURE = 'auth.login.failure',
+    LOGOUT = 'auth.logout',
+    TOKEN_REFRESH = 'auth.token.refresh',
+    // A rotated refresh token was presented again, its token family was revoked
+    REFRESH_TOKEN_REUSE = 'auth.token.reuse',
+    PASSWORD_RESET = 'auth.password.reset',
+    PASSWORD_CHANGE = 'auth.password.change',
+    EMAIL_VERIFICATION = 'auth.email.verification',
+    EMAIL_CHANGE = 'auth.email.change',
+    USER_CREATE = 'user.create',
+    USER_UPDATE = 'user.update',
+    USER_DELETE = 'user.delete',
+    USER_RESTORE = 'user.restore',
+    // Personal data of a deleted user was purged once the grace period ended
+    USER_ERASURE = 'user.erasure',
+    DATA_EXPORT = 'user.export',
+    OAUTH_CLIENT_REGISTRATION = 'oauth.client.register',
+    // A user granted an OAuth client access to their account
+    OAUTH_AUTHORIZATION = 'oauth.authorize',
+    // An authorization code was exchanged again, the tokens issued from it were revoked
+    OAUTH_CODE_REUSE = 'oauth.code.reuse',
+    IMPERSONATION_START = 'impersonation.start',
+    IMPERSONATION_END = 'impersonation.end',
+    // A sensitive action was refused to an impersonation token
+    IMPERSONATION_BLOCKED = 'impersonation.blocked'
+}
+
+// Changed fields of a record, sensitive values are redacted
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+// Actor, IP address and user agent default to the ones of the current request, see utils/requestContext
+export interface AuditEventInput {
+    actorId?: string | null;
+    targetId?: string | null;
+    ipAddress?: string;
+    userAgent?: string;
+    diff?: AuditDiff;
+    metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilter {
+    type?: string;
+    actorId?: string;
+    targetId?: string;
+    from?: Date;
+    to?: Date;
+}
@@ -0,0 +1,11 @@
+export enum EmailTransport {
+    SMTP = 'smtp',
+    OUTBOX = 'outbox',
+    CONSOLE = 'console'
+}
+
+export interface EmailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
@@ -0,0 +1,6 @@
+export enum MagicLinkType {
+    // A link to open on the device, carrying a long random token
+    LINK = 'link',
+    // A short numeric code to type into the app
+    CODE = 'code'
+}
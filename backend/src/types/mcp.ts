@@ -1,11 +1,76 @@
+import { User } from '../generated/prisma/index.js';
+import { PolicySubject } from '../policies/types.ts';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import Joi from 'joi';
 import z from 'zod';
 
+// Caller of a tool, the user the MCP session is authenticated as
+export interface MCPToolContext {
+    user: Pick<User, 'id' | 'email' | 'name' | 'role' | 'isEmailVerified'>;
+    subject: PolicySubject & { id: string };
+    // Set when authenticated with an API key
+    apiKey?: { id: number; scopes: string[] };
+    // Set when an admin impersonates the user
+    actor?: { id: string };
+    sessionId?: string;
+}
+
 export interface MCPTool {
     id: string;
     name: string;
     description: string;
-    inputSchema: z.ZodObject<any>;
+    // Joi schemas are the ones of the REST routes the tool is generated from, see utils/routeTools.ts
+    inputSchema: z.ZodObject<any> | Joi.ObjectSchema;
     // Output schema is *mandatory* if the tool returns a value
     outputSchema?: z.ZodObject<any>;
-    fn: (inputs: any) => Promise<any> | any;
+    // Rights required to call the tool, checked like auth(...requiredRights)
+    requiredRights?: string[];
+    // Policy action checked with the tool inputs, like authorize(action)
+    action?: string;
+    fn: (inputs: any, context: MCPToolContext) => Promise<any> | any;
+}
+
+// Reusable instructions for agents, filled in with the arguments given by the client
+export interface MCPPrompt {
+    id: string;
+    name: string;
+    description: string;
+    // Prompt arguments are strings, the descriptions of the fields are listed to the client
+    argumentsSchema: z.ZodObject<any>;
+    // Rights required to get the prompt, checked like auth(...requiredRights)
+    requiredRights?: string[];
+    // Policy action the prompt is about, it is only listed to the users who may be allowed to perform it
+    action?: string;
+    fn: (args: any, context: MCPToolContext) => Promise<PromptMessage[]> | PromptMessage[];
+}
+
+export interface MCPResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+}
+
+export type MCPResourceContents = { mimeType?: string } & ({ text: string } | { blob: string });
+
+// Resources matching a URI template (RFC 6570), e.g. user://{id}
+export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    title: string;
+    description: string;
+    mimeType?: string;
+    // Rights required to read the resources, checked like auth(...requiredRights)
+    requiredRights?: string[];
+    // Policy action checked with the variables of the URI, like authorize(action)
+    action?: string;
+    // Policy inputs of the variables of the URI, the variables themselves when omitted
+    getPolicyInputs?: (variables: Record<string, string>) => Record<string, string | undefined>;
+    // Resources of the template listed to the caller, the others are only read through the template
+    list?: (context: MCPToolContext) => Promise<MCPResource[]> | MCPResource[];
+    read: (variables: Record<string, string>, context: MCPToolContext) => Promise<MCPResourceContents>;
+    // Calls onChange whenever the resource changes, returns the function ending the subscription
+    // Resources without it cannot be subscribed to
+    subscribe?: (variables: Record<string, string>, onChange: () => void) => () => void;
 }
@@ -0,0 +1,43 @@
+// How clients of the MCP OAuth authorization server authenticate at the token endpoint
+export enum TokenEndpointAuthMethod {
+    // Public clients, like desktop apps, only prove the authorization with PKCE
+    NONE = 'none',
+    CLIENT_SECRET_POST = 'client_secret_post',
+    CLIENT_SECRET_BASIC = 'client_secret_basic'
+}
+
+export enum OAuthGrantType {
+    AUTHORIZATION_CODE = 'authorization_code',
+    REFRESH_TOKEN = 'refresh_token'
+}
+
+export interface OAuthClientRegistration {
+    redirectUris: string[];
+    clientName?: string;
+    tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+}
+
+// Authorization request of a client, approved by the user on the app
+export interface OAuthAuthorizationRequest {
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    codeChallengeMethod: string;
+    state?: string;
+    scope?: string;
+    // MCP endpoint the tokens are requested for (RFC 8707)
+    resource?: string;
+}
+
+// From the request body or the Basic Authorization header
+export interface OAuthClientCredentials {
+    clientId?: string;
+    clientSecret?: string;
+}
+
+export interface OAuthCodeExchange {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    resource?: string;
+}
@@ -1,3 +1,5 @@
+import { OrganizationRole } from '../generated/prisma/index.js';
+
 export interface TokenResponse {
     token: string;
     expires: Date;
@@ -7,3 +9,108 @@ export interface AuthTokensResponse {
     access: TokenResponse;
     refresh?: TokenResponse;
 }
+
+export interface SessionResponse {
+    id: number;
+    deviceName: string | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+}
+
+export interface RoleResponse {
+    name: string;
+    description: string | null;
+    permissions: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface OrganizationResponse {
+    id: string;
+    name: string;
+    role: OrganizationRole;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface MemberResponse {
+    userId: string;
+    email: string;
+    name: string | null;
+    role: OrganizationRole;
+    createdAt: Date;
+}
+
+export interface ApiKeyResponse {
+    id: number;
+    name: string;
+    prefix: string;
+    scopes: string[];
+    expires: Date | null;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}
+
+export interface CreatedApiKeyResponse extends ApiKeyResponse {
+    // Only returned when the key is created or rotated
+    key: string;
+}
+
+export interface PaginatedResponse<T> {
+    results: T[];
+    page: number;
+    limit: number;
+    totalPages: number;
+    totalResults: number;
+}
+
+export interface DataExportResponse {
+    id: string;
+    // Signed download URL of the archive, valid for a short time
+    url: string;
+}
+
+// Page following a cursor, the total count is not computed
+export interface CursorPaginatedResponse<T> {
+    results: T[];
+    limit: number;
+    // Cursor of the next page, null on the last page
+    nextCursor: string | null;
+}
+
+export interface AuditEventResponse {
+    id: number;
+    type: string;
+    actorId: string | null;
+    targetId: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    diff: unknown;
+    metadata: unknown;
+    createdAt: Date;
+}
+
+// RFC 7591 client information response
+export interface OAuthClientResponse {
+    client_id: string;
+    // Only returned at registration, to confidential clients
+    client_secret?: string;
+    client_id_issued_at: number;
+    client_secret_expires_at?: number;
+    client_name?: string;
+    redirect_uris: string[];
+    token_endpoint_auth_method: string;
+    grant_types: string[];
+    response_types: string[];
+}
+
+// RFC 6749 token response
+export interface OAuthTokenResponse {
+    access_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    refresh_token?: string;
+    scope?: string;
+}
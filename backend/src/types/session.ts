@@ -0,0 +1,11 @@
+export interface SessionMetadata {
+    family?: string;
+    deviceName?: string;
+    userAgent?: string;
+    ipAddress?: string;
+    lastUsedAt?: Date;
+    // Tenant of the access tokens, see the X-Organization-Id header
+    organizationId?: string | null;
+    // OAuth client the tokens are issued to, its access tokens are only accepted by the MCP endpoint
+    clientId?: string;
+}
@@ -0,0 +1,15 @@
+// Fields GET /users can be sorted by, other fields are rejected
+export const USER_SORT_FIELDS = ['name', 'email', 'role', 'isEmailVerified', 'createdAt', 'updatedAt'] as const;
+
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+export interface UserFilter {
+    // Partial and case-insensitive match of the name or the email
+    search?: string;
+    name?: string;
+    email?: string;
+    role?: string;
+    isEmailVerified?: boolean;
+    createdFrom?: Date;
+    createdTo?: Date;
+}
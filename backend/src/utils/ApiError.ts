@@ -1,6 +1,8 @@
 class ApiError extends Error {
     statusCode: number;
     isOperational: boolean;
+    // Sent along with the message, e.g. why a policy denied the request
+    details?: Record<string, unknown>;
 
     constructor(statusCode: number, message: string | undefined, isOperational = true, stack = '') {
         super(message);
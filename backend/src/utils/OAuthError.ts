@@ -0,0 +1,14 @@
+import ApiError from './ApiError.ts';
+
+// Error of the OAuth authorization server endpoints, sent as an RFC 6749 error response
+class OAuthError extends ApiError {
+    // Error code of the response, e.g. invalid_grant
+    error: string;
+
+    constructor(statusCode: number, error: string, description: string) {
+        super(statusCode, description);
+        this.error = error;
+    }
+}
+
+export default OAuthError;
@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+
+// Changes of the rows of the published models, see the changeEvents extension of the Prisma client
+const emitter = new EventEmitter();
+// Every MCP resource subscription adds a listener
+emitter.setMaxListeners(0);
+
+/**
+ * Publish the change of a row
+ * @param {string} model
+ * @param {string} id
+ */
+export const emitChange = (model: string, id: string): void => {
+    emitter.emit(model, id);
+};
+
+/**
+ * Listen to the changes of the rows of a model
+ * @param {string} model
+ * @param {Function} listener - called with the id of the changed row
+ * @returns {Function} removes the listener
+ */
+export const onChange = (model: string, listener: (id: string) => void): (() => void) => {
+    emitter.on(model, listener);
+    return () => emitter.off(model, listener);
+};
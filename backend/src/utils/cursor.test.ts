@@ -0,0 +1,30 @@
+import ApiError from './ApiError.ts';
+import { decodeCursor, encodeCursor } from './cursor.ts';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const isInvalidCursorError = (error: unknown) =>
+    error instanceof ApiError && error.statusCode === 400 && error.message === 'Invalid cursor';
+
+describe('cursor', () => {
+    it('decodes the position it encoded', () => {
+        const position = { id: 'user-1', createdAt: '2026-01-01T00:00:00.000Z', rank: 3 };
+        assert.deepEqual(decodeCursor(encodeCursor(position)), position);
+    });
+
+    it('encodes URL safe cursors', () => {
+        assert.match(encodeCursor({ name: '?>?>?>' }), /^[A-Za-z0-9_-]+$/);
+    });
+
+    it('rejects a cursor that is not base64url encoded JSON', () => {
+        assert.throws(() => decodeCursor('not a cursor'), isInvalidCursorError);
+        assert.throws(() => decodeCursor(Buffer.from('{"id":').toString('base64url')), isInvalidCursorError);
+    });
+
+    it('rejects a cursor that is not a position', () => {
+        for (const value of [null, 42, '"id"', '["user-1"]']) {
+            const cursor = Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+            assert.throws(() => decodeCursor(cursor), isInvalidCursorError);
+        }
+    });
+});
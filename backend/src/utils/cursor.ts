@@ -0,0 +1,27 @@
+import ApiError from './ApiError.ts';
+import httpStatus from 'http-status';
+
+/**
+ * Encode the position of a record into an opaque pagination cursor
+ * @param {Object} position
+ * @returns {string}
+ */
+export const encodeCursor = (position: Record<string, string | number>): string =>
+    Buffer.from(JSON.stringify(position)).toString('base64url');
+
+/**
+ * Decode a pagination cursor made by encodeCursor, or throw
+ * @param {string} cursor
+ * @returns {Object}
+ */
+export const decodeCursor = (cursor: string): Record<string, unknown> => {
+    try {
+        const position = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as unknown;
+        if (position && typeof position === 'object' && !Array.isArray(position)) {
+            return position as Record<string, unknown>;
+        }
+    } catch (error) {
+        // Reported below
+    }
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Invalid cursor');
+};
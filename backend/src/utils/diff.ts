@@ -0,0 +1,28 @@
+import { AuditDiff } from '../types/audit.ts';
+
+// Fields whose values never appear in audit diffs, only the fact that they changed
+const REDACTED_FIELDS = ['password', 'twoFactorSecret', 'twoFactorRecoveryCodes'];
+const REDACTED_VALUE = '[REDACTED]';
+
+const redact = (value: unknown): unknown => (value === undefined ? undefined : REDACTED_VALUE);
+
+/**
+ * Get the fields that differ between two versions of a record, sensitive values are redacted
+ * @param {Object} before - record before the change, empty when it is created
+ * @param {Object} after - record after the change, empty when it is deleted
+ * @returns {AuditDiff}
+ */
+export const getDiff = (before: object, after: object): AuditDiff => {
+    const diff: AuditDiff = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+        const from = before[key as keyof typeof before] as unknown;
+        const to = after[key as keyof typeof after] as unknown;
+        const isSame = from instanceof Date && to instanceof Date ? from.getTime() === to.getTime() : from === to;
+        if (isSame) {
+            continue;
+        }
+        diff[key] = REDACTED_FIELDS.includes(key) ? { from: redact(from), to: redact(to) } : { from, to };
+    }
+    return diff;
+};
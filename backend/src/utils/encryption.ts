@@ -1,10 +1,16 @@
+import config from '../config/config.ts';
 import bcrypt from 'bcrypt';
 
 export const encryptPassword = async (password: string) => {
-    const encryptedPassword = await bcrypt.hash(password, 8);
+    const encryptedPassword = await bcrypt.hash(password, config.password.hashRounds);
     return encryptedPassword;
 };
 
 export const isPasswordMatch = async (password: string, userPassword: string) => {
     return await bcrypt.compare(password, userPassword);
 };
+
+// Hashes created with another cost than the configured one are upgraded on the next login
+export const isPasswordRehashNeeded = (userPassword: string) => {
+    return bcrypt.getRounds(userPassword) !== config.password.hashRounds;
+};
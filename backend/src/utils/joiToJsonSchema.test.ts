@@ -0,0 +1,58 @@
+import joiToJsonSchema from './joiToJsonSchema.ts';
+import Joi from 'joi';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+describe('joiToJsonSchema', () => {
+    it('converts the keys of an object and the required ones', () => {
+        const schema = Joi.object().keys({
+            email: Joi.string().required().email(),
+            name: Joi.string().max(100),
+            age: Joi.number().integer().min(0)
+        });
+        assert.deepEqual(joiToJsonSchema(schema), {
+            type: 'object',
+            properties: {
+                email: { type: 'string', format: 'email' },
+                name: { type: 'string', maxLength: 100 },
+                age: { type: 'integer', minimum: 0 }
+            },
+            required: ['email'],
+            additionalProperties: false
+        });
+    });
+
+    it('converts the allowed values to an enum', () => {
+        assert.deepEqual(joiToJsonSchema(Joi.string().valid('asc', 'desc')), { type: 'string', enum: ['asc', 'desc'] });
+    });
+
+    it('makes a type nullable when null is allowed', () => {
+        assert.deepEqual(joiToJsonSchema(Joi.date().allow(null)), { type: ['string', 'null'], format: 'date-time' });
+    });
+
+    it('converts arrays and their items', () => {
+        assert.deepEqual(joiToJsonSchema(Joi.array().items(Joi.string().guid()).unique().max(10)), {
+            type: 'array',
+            items: { type: 'string', format: 'uuid' },
+            maxItems: 10,
+            uniqueItems: true
+        });
+    });
+
+    it('keeps the descriptions and the static defaults', () => {
+        assert.deepEqual(joiToJsonSchema(Joi.number().default(10).description('page size')), {
+            type: 'number',
+            description: 'page size',
+            default: 10
+        });
+        assert.deepEqual(joiToJsonSchema(Joi.date().default(() => new Date())), {
+            type: 'string',
+            format: 'date-time'
+        });
+    });
+
+    it('leaves the custom rules to the Joi validation', () => {
+        const schema = Joi.string().custom(value => value);
+        assert.deepEqual(joiToJsonSchema(schema), { type: 'string' });
+    });
+});
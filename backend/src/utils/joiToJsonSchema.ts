@@ -0,0 +1,89 @@
+import Joi from 'joi';
+
+export type JsonSchema = { [key: string]: unknown };
+
+// Description of a schema by Joi describe(), only the parts converted below
+interface JoiDescription {
+    type: string;
+    flags?: { presence?: string; only?: boolean; description?: string; default?: unknown; format?: unknown };
+    allow?: unknown[];
+    rules?: { name: string; args?: { limit?: unknown } }[];
+    keys?: Record<string, JoiDescription>;
+    items?: JoiDescription[];
+}
+
+const getLimit = (description: JoiDescription, ruleName: string): number | undefined => {
+    const limit = description.rules?.find(rule => rule.name === ruleName)?.args?.limit;
+    return typeof limit === 'number' ? limit : undefined;
+};
+
+const hasRule = (description: JoiDescription, ruleName: string) =>
+    Boolean(description.rules?.some(rule => rule.name === ruleName));
+
+/**
+ * Convert the description of a Joi schema, references and custom rules are left to the Joi validation
+ * @param {JoiDescription} description
+ * @returns {JsonSchema}
+ */
+const convert = (description: JoiDescription): JsonSchema => {
+    const { flags = {} } = description;
+    const schema: JsonSchema = {};
+    switch (description.type) {
+        case 'string':
+            schema.type = 'string';
+            if (hasRule(description, 'email')) {
+                schema.format = 'email';
+            } else if (hasRule(description, 'guid')) {
+                schema.format = 'uuid';
+            }
+            schema.minLength = getLimit(description, 'min');
+            schema.maxLength = getLimit(description, 'max');
+            break;
+        case 'number':
+            schema.type = hasRule(description, 'integer') ? 'integer' : 'number';
+            schema.minimum = getLimit(description, 'min');
+            schema.maximum = getLimit(description, 'max');
+            break;
+        case 'boolean':
+            schema.type = 'boolean';
+            break;
+        case 'date':
+            schema.type = 'string';
+            schema.format = 'date-time';
+            break;
+        case 'array':
+            schema.type = 'array';
+            schema.items = description.items?.length === 1 ? convert(description.items[0]) : undefined;
+            schema.minItems = getLimit(description, 'min');
+            schema.maxItems = getLimit(description, 'max');
+            schema.uniqueItems = hasRule(description, 'unique') || undefined;
+            break;
+        case 'object': {
+            const keys = Object.entries(description.keys ?? {});
+            const required = keys.filter(([, key]) => key.flags?.presence === 'required').map(([name]) => name);
+            schema.type = 'object';
+            schema.properties = Object.fromEntries(keys.map(([name, key]) => [name, convert(key)]));
+            schema.required = required.length ? required : undefined;
+            schema.additionalProperties = false;
+            break;
+        }
+    }
+    const allowed = description.allow ?? [];
+    if (flags.only) {
+        schema.enum = allowed;
+    } else if (allowed.includes(null) && schema.type) {
+        schema.type = [schema.type, 'null'];
+    }
+    schema.description = flags.description;
+    schema.default = typeof flags.default === 'function' ? undefined : flags.default;
+    return Object.fromEntries(Object.entries(schema).filter(([, value]) => value !== undefined));
+};
+
+/**
+ * Convert a Joi schema to a JSON schema, e.g. to describe the inputs validated by the schema
+ * @param {Joi.Schema} schema
+ * @returns {JsonSchema}
+ */
+const joiToJsonSchema = (schema: Joi.Schema): JsonSchema => convert(schema.describe() as JoiDescription);
+
+export default joiToJsonSchema;
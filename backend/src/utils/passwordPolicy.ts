@@ -0,0 +1,35 @@
+import config from '../config/config.ts';
+
+/**
+ * Check a password against the configured password policy
+ * @param {string} password
+ * @returns {string | null} the first violated rule, or null when the password is accepted
+ */
+export const getPasswordPolicyViolation = (password: string): string | null => {
+    const policy = config.password;
+    if (password.length < policy.minLength) {
+        return `password must be at least ${policy.minLength} characters`;
+    }
+    if (password.length > policy.maxLength) {
+        return `password must be at most ${policy.maxLength} characters`;
+    }
+    if (policy.requireLetter && !/\p{L}/u.test(password)) {
+        return 'password must contain at least 1 letter';
+    }
+    if (policy.requireNumber && !/\d/.test(password)) {
+        return 'password must contain at least 1 number';
+    }
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+        return 'password must contain at least 1 lowercase letter';
+    }
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+        return 'password must contain at least 1 uppercase letter';
+    }
+    if (policy.requireSymbol && !/[^\p{L}\d]/u.test(password)) {
+        return 'password must contain at least 1 symbol';
+    }
+    if (policy.denylist.has(password.toLowerCase())) {
+        return 'password is too common';
+    }
+    return null;
+};
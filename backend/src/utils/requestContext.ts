@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Who makes the current request and from where, recorded with audit events
+export interface RequestContext {
+    ipAddress?: string;
+    userAgent?: string;
+    // Authenticated user, the admin during an impersonation
+    actorId?: string;
+    impersonatedUserId?: string;
+}
+
+const requestContextStorage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Get the context of the current request
+ * @returns {RequestContext | undefined}
+ */
+export const getRequestContext = (): RequestContext | undefined => requestContextStorage.getStore();
+
+/**
+ * Run a function with a request context, auth() completes it with the authenticated user
+ * @param {RequestContext} context
+ * @param {Function} fn
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T =>
+    requestContextStorage.run(context, fn);
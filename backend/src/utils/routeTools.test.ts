@@ -0,0 +1,162 @@
+import authorize from '../middlewares/authorize.ts';
+import validate from '../middlewares/validate.ts';
+import { MCPTool, MCPToolContext } from '../types/mcp.ts';
+import ApiError from './ApiError.ts';
+import { generateRouteTools } from './routeTools.ts';
+import express, { NextFunction, Request, Response } from 'express';
+import Joi from 'joi';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { z } from 'zod';
+
+/**
+ * Stand-in of auth(), the generated tools only read its metadata
+ * @param {Object} [options]
+ * @param {string[]} requiredRights
+ */
+const auth = (options: { requireVerifiedEmail?: boolean } = {}, ...requiredRights: string[]) =>
+    Object.assign((req: Request, res: Response, next: NextFunction) => next(), {
+        authentication: { options, requiredRights }
+    });
+
+const context = {
+    user: { id: 'user-1', email: 'user@example.com', name: null, role: 'USER', isEmailVerified: true },
+    subject: { id: 'user-1', role: 'USER' }
+} as MCPToolContext;
+
+// The generated tools validate their inputs with Joi
+const getInputSchema = (tool: MCPTool) => tool.inputSchema as Joi.ObjectSchema;
+
+const createRouter = () => {
+    const router = express.Router();
+    router
+        .route('/')
+        .get(
+            auth({}, 'getThings'),
+            validate({ query: Joi.object().keys({ limit: Joi.number().integer() }) }),
+            authorize('user:list'),
+            (req: Request, res: Response) => {
+                res.send({ query: (req as Request & { validatedQuery: unknown }).validatedQuery });
+            }
+        )
+        .post(
+            auth({ requireVerifiedEmail: true }),
+            validate({ body: Joi.object().keys({ name: Joi.string().required() }) }),
+            (req: Request, res: Response) => {
+                res.status(201).send({ id: 'thing-1', ...req.body });
+            }
+        );
+    router
+        .route('/:thingId')
+        .patch(
+            auth(),
+            validate({
+                params: Joi.object().keys({ thingId: Joi.string().required() }),
+                body: Joi.object().keys({ name: Joi.string() })
+            }),
+            authorize('user:update'),
+            (req: Request, res: Response) => {
+                res.send({ params: req.params, body: req.body });
+            }
+        )
+        .delete(auth(), (req: Request, res: Response) => {
+            res.status(204).send();
+        });
+    router.get('/:thingId/secrets', auth(), (req: Request, res: Response) => {
+        res.send({ secret: true });
+    });
+    router.get('/public/list', (req: Request, res: Response) => {
+        res.send([]);
+    });
+    router.get('/:thingId/fail', auth(), () => {
+        throw new ApiError(404, 'Thing not found');
+    });
+    return router;
+};
+
+describe('generateRouteTools', () => {
+    it('generates a tool for every method of the authenticated routes', () => {
+        const tools = generateRouteTools(createRouter(), '/things');
+        assert.deepEqual(
+            tools.map(tool => tool.id),
+            [
+                'get_things',
+                'post_things',
+                'patch_things_by_thingId',
+                'delete_things_by_thingId',
+                'get_things_by_thingId_secrets',
+                'get_things_by_thingId_fail'
+            ]
+        );
+    });
+
+    it('keeps the rights and the policy action of the route', () => {
+        const [listTool, , updateTool] = generateRouteTools(createRouter(), '/things');
+        assert.deepEqual(listTool.requiredRights, ['getThings']);
+        assert.equal(listTool.action, 'user:list');
+        assert.equal(updateTool.action, 'user:update');
+    });
+
+    it('leaves out the excluded routes and the paths below the excluded prefixes', () => {
+        const tools = generateRouteTools(createRouter(), '/things', {
+            exclude: ['POST /things', '/things/:thingId/secrets', '/things/:thingId/fail']
+        });
+        assert.deepEqual(
+            tools.map(tool => tool.id),
+            ['get_things', 'patch_things_by_thingId', 'delete_things_by_thingId']
+        );
+    });
+
+    it('overrides the id and the output schema of a route', () => {
+        const outputSchema = z.object({ id: z.string(), name: z.string() });
+        const tools = generateRouteTools(createRouter(), '/things', {
+            overrides: { 'POST /things': { id: 'thing_create', outputSchema } }
+        });
+        const createTool = tools.find(tool => tool.id === 'thing_create');
+        assert.equal(createTool?.outputSchema, outputSchema);
+        assert.equal(createTool?.name, 'POST /things');
+    });
+
+    it('validates the path params, the query and the body of the route', () => {
+        const [listTool, createTool, updateTool] = generateRouteTools(createRouter(), '/things');
+        assert.deepEqual(Object.keys(getInputSchema(listTool).describe().keys), ['limit']);
+        assert.ok(getInputSchema(createTool).validate({}).error);
+        assert.equal(getInputSchema(updateTool).validate({ thingId: 'thing-1', name: 'New name' }).error, undefined);
+        assert.ok(getInputSchema(updateTool).validate({ name: 'New name' }).error);
+    });
+
+    it('passes the inputs to the route as params, query and body', async () => {
+        const [listTool, , updateTool] = generateRouteTools(createRouter(), '/things');
+        assert.deepEqual(await listTool.fn({ limit: 5 }, context), { query: { limit: 5 } });
+        assert.deepEqual(await updateTool.fn({ thingId: 'thing-1', name: 'New name' }, context), {
+            params: { thingId: 'thing-1' },
+            body: { name: 'New name' }
+        });
+    });
+
+    it('reports the success of the routes responding without a body', async () => {
+        const deleteTool = generateRouteTools(createRouter(), '/things').find(
+            tool => tool.id === 'delete_things_by_thingId'
+        );
+        assert.deepEqual(await deleteTool!.fn({ thingId: 'thing-1' }, context), { success: true });
+    });
+
+    it('rejects with the errors of the route', async () => {
+        const failTool = generateRouteTools(createRouter(), '/things').find(
+            tool => tool.id === 'get_things_by_thingId_fail'
+        );
+        await assert.rejects(failTool!.fn({ thingId: 'thing-1' }, context), { message: 'Thing not found' });
+    });
+
+    it('rejects the invalid inputs with the validation of the route', async () => {
+        const [, createTool] = generateRouteTools(createRouter(), '/things');
+        await assert.rejects(createTool.fn({}, context), { message: '"name" is required' });
+    });
+
+    it('requires a verified email when the route does', async () => {
+        const [, createTool] = generateRouteTools(createRouter(), '/things');
+        const unverifiedContext = { ...context, user: { ...context.user, isEmailVerified: false } };
+        await assert.rejects(createTool.fn({ name: 'Thing' }, unverifiedContext), { message: 'Email not verified' });
+        assert.deepEqual(await createTool.fn({ name: 'Thing' }, context), { id: 'thing-1', name: 'Thing' });
+    });
+});
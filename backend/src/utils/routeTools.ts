@@ -0,0 +1,195 @@
+import swaggerDefinition from '../docs/swaggerDef.ts';
+import { AuthOptions } from '../middlewares/auth.ts';
+import { MCPTool, MCPToolContext } from '../types/mcp.ts';
+import ApiError from './ApiError.ts';
+import { NextFunction, Request, Response, Router } from 'express';
+import httpStatus from 'http-status';
+import Joi from 'joi';
+import swaggerJsdoc from 'swagger-jsdoc';
+
+type RouteHandler = (req: Request, res: Response, next: NextFunction) => unknown;
+
+// Metadata attached to their middleware by auth(), validate() and authorize()
+interface RouteHandlerMetadata {
+    authentication?: { options: AuthOptions; requiredRights: string[] };
+    validationSchema?: { params?: Joi.ObjectSchema; query?: Joi.ObjectSchema; body?: Joi.ObjectSchema };
+    action?: string;
+}
+
+// Route of a router, with the handlers of one of its methods
+export interface RouteDefinition {
+    method: string;
+    // Path of the route including the path the router is mounted on, e.g. /users/:userId
+    path: string;
+    handlers: RouteHandler[];
+}
+
+type DocumentedOperations = Record<string, Record<string, { summary?: string; description?: string } | undefined>>;
+
+let documentedOperations: DocumentedOperations | undefined;
+
+/**
+ * Get the swagger documentation of a route, parsed from the route files on first use
+ * The docs may name the path params differently, paths are compared without the names
+ * @param {string} method
+ * @param {string} path
+ * @returns {Object | undefined}
+ */
+const getDocumentedOperation = (method: string, path: string) => {
+    documentedOperations ??= Object.fromEntries(
+        Object.entries((swaggerJsdoc(swaggerDefinition) as { paths?: DocumentedOperations }).paths ?? {}).map(
+            ([documentedPath, operations]) => [documentedPath.replace(/\{\w+\}/g, '{}'), operations]
+        )
+    );
+    return documentedOperations[path.replace(/:\w+/g, '{}')]?.[method];
+};
+
+/**
+ * Keys of the inputs validated by a Joi schema
+ * @param {Joi.ObjectSchema} [schema]
+ * @returns {string[]}
+ */
+const getKeys = (schema?: Joi.ObjectSchema): string[] => Object.keys(schema?.describe().keys ?? {});
+
+/**
+ * Run route handlers with a request until one of them responds
+ * @param {RouteHandler[]} handlers
+ * @param {Request} req
+ * @returns {Promise<unknown>} the body of the response
+ */
+const runHandlers = async (handlers: RouteHandler[], req: Request): Promise<unknown> =>
+    await new Promise((resolve, reject) => {
+        const res = {
+            statusCode: httpStatus.OK as number,
+            status(code: number) {
+                this.statusCode = code;
+                return this;
+            },
+            send: resolve,
+            json: resolve
+        };
+        const next =
+            (index: number) =>
+            (error?: unknown): void => {
+                const handler = handlers[index];
+                if (error || !handler) {
+                    return reject(error ?? new ApiError(httpStatus.NOT_FOUND, 'Not found'));
+                }
+                Promise.resolve()
+                    .then(() => handler(req, res as unknown as Response, next(index + 1)))
+                    .catch(reject);
+            };
+        next(0)();
+    });
+
+/**
+ * Turn an authenticated route into an MCP tool, its inputs are the route params, query and body
+ * The inputs are validated by the Joi schemas of the route and the tool is documented by the swagger docs of the route
+ * The rights and the policy action of the route are checked on the tool call, the other handlers run as they are
+ * @param {RouteDefinition} route
+ * @returns {MCPTool | undefined} undefined for a route without auth()
+ */
+export const createRouteTool = (route: RouteDefinition): MCPTool | undefined => {
+    const handlers = route.handlers as (RouteHandler & RouteHandlerMetadata)[];
+    const authentication = handlers.find(handler => handler.authentication)?.authentication;
+    if (!authentication) {
+        return undefined;
+    }
+    const validationSchema = handlers.find(handler => handler.validationSchema)?.validationSchema ?? {};
+    const action = handlers.find(handler => handler.action)?.action;
+    const method = route.method.toUpperCase();
+    const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(([, name]) => name);
+    const paramKeys = [...pathParams, ...getKeys(validationSchema.params)];
+    const queryKeys = getKeys(validationSchema.query);
+
+    // Path params are strings unless validated otherwise, a key shared by several parts is validated by the last one
+    const inputKeys: Record<string, Joi.Schema> = Object.fromEntries(
+        pathParams.map(name => [name, Joi.string().required()])
+    );
+    for (const schema of [validationSchema.params, validationSchema.query, validationSchema.body]) {
+        for (const key of getKeys(schema)) {
+            inputKeys[key] = schema!.extract(key);
+        }
+    }
+    const operation = getDocumentedOperation(route.method, route.path);
+
+    return {
+        id: [route.method, ...route.path.split('/').filter(Boolean)]
+            .map(segment => (segment.startsWith(':') ? `by_${segment.slice(1)}` : segment))
+            .join('_')
+            .replace(/[^a-zA-Z0-9_]/g, '_'),
+        name: operation?.summary ?? `${method} ${route.path}`,
+        description: operation?.description ?? operation?.summary ?? `${method} ${route.path}`,
+        inputSchema: Joi.object().keys(inputKeys),
+        requiredRights: authentication.requiredRights,
+        action,
+        fn: async (inputs: Record<string, unknown> = {}, context: MCPToolContext) => {
+            if (authentication.options.requireVerifiedEmail && !context.user.isEmailVerified) {
+                throw new ApiError(httpStatus.FORBIDDEN, 'Email not verified');
+            }
+            const params: Record<string, unknown> = {};
+            const query: Record<string, unknown> = {};
+            const body: Record<string, unknown> = {};
+            for (const [key, value] of Object.entries(inputs)) {
+                const part = paramKeys.includes(key) ? params : queryKeys.includes(key) ? query : body;
+                part[key] = value;
+            }
+            const req = {
+                method,
+                originalUrl: route.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(`${params[name]}`)),
+                params,
+                query,
+                body,
+                headers: {},
+                get: () => undefined,
+                user: context.user,
+                apiKey: context.apiKey,
+                actor: context.actor
+            } as unknown as Request;
+            const runnableHandlers = handlers.filter(handler => !handler.authentication && !handler.action);
+            // Responses without a body, like 204 No Content, still tell the client the call succeeded
+            return (await runHandlers(runnableHandlers, req)) ?? { success: true };
+        }
+    };
+};
+
+/**
+ * Generate the MCP tools of the authenticated routes of a router, new routes become tools without changes
+ * @param {Router} router
+ * @param {string} basePath - path the router is mounted on, e.g. /users
+ * @param {Object} [options]
+ * @param {string[]} [options.exclude] - routes left out, e.g. POST /users/me/password,
+ * or every route of a path and the paths below it, e.g. /users/:userId/api-keys
+ * @param {Object} [options.overrides] - fields of the tools of some routes, e.g. { 'GET /users': { id: 'user_get_all' } }
+ * to keep the ids clients already use, or to declare the output schema of a route
+ * @returns {MCPTool[]}
+ */
+export const generateRouteTools = (
+    router: Router,
+    basePath: string,
+    options: { exclude?: string[]; overrides?: Record<string, Partial<Pick<MCPTool, 'id' | 'outputSchema'>>> } = {}
+) => {
+    const tools: MCPTool[] = [];
+    for (const { route } of router.stack) {
+        if (!route) {
+            continue;
+        }
+        const path = route.path === '/' ? basePath : `${basePath}${route.path}`;
+        const methods = new Set(route.stack.map(layer => layer.method).filter(Boolean));
+        for (const method of methods) {
+            const routeName = `${method.toUpperCase()} ${path}`;
+            const isExcluded = options.exclude?.some(
+                excluded => excluded === routeName || path === excluded || path.startsWith(`${excluded}/`)
+            );
+            if (isExcluded) {
+                continue;
+            }
+            const handlers = route.stack.filter(layer => layer.method === method).map(layer => layer.handle);
+            const tool = createRouteTool({ method, path, handlers });
+            if (tool) {
+                tools.push({ ...tool, ...options.overrides?.[routeName] });
+            }
+        }
+    }
+    return tools;
+};
@@ -0,0 +1,15 @@
+import { SessionMetadata } from '../types/session.ts';
+import { Request } from 'express';
+
+/**
+ * Extract the device details of a login from the request
+ * @param {Request} req
+ * @returns {SessionMetadata}
+ */
+export const getSessionMetadata = (req: Request): SessionMetadata => {
+    return {
+        deviceName: req.body?.deviceName,
+        userAgent: req.get('user-agent'),
+        ipAddress: req.ip
+    };
+};
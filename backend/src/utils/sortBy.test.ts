@@ -0,0 +1,37 @@
+import { parseSortBy } from './sortBy.ts';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+const FIELDS = ['name', 'email', 'createdAt'] as const;
+
+describe('parseSortBy', () => {
+    it('parses comma separated sort options', () => {
+        assert.deepEqual(parseSortBy('name:asc,createdAt:desc', FIELDS), [
+            { field: 'name', order: 'asc' },
+            { field: 'createdAt', order: 'desc' }
+        ]);
+    });
+
+    it('sorts in ascending order by default', () => {
+        assert.deepEqual(parseSortBy('email', FIELDS), [{ field: 'email', order: 'asc' }]);
+    });
+
+    it('ignores the spaces around the options', () => {
+        assert.deepEqual(parseSortBy(' name:desc , email ', FIELDS), [
+            { field: 'name', order: 'desc' },
+            { field: 'email', order: 'asc' }
+        ]);
+    });
+
+    it('rejects the fields that are not allowed', () => {
+        assert.equal(parseSortBy('password:asc', FIELDS), null);
+        assert.equal(parseSortBy('name:asc,password', FIELDS), null);
+    });
+
+    it('rejects malformed options', () => {
+        assert.equal(parseSortBy('name:up', FIELDS), null);
+        assert.equal(parseSortBy('name:asc:desc', FIELDS), null);
+        assert.equal(parseSortBy('', FIELDS), null);
+        assert.equal(parseSortBy('name,,email', FIELDS), null);
+    });
+});
@@ -0,0 +1,26 @@
+export interface SortOption<Field extends string = string> {
+    field: Field;
+    order: 'asc' | 'desc';
+}
+
+/**
+ * Parse a sortBy query in the form of field:(asc|desc), comma separated (ex. role:asc,createdAt:desc)
+ * The order defaults to asc
+ * @param {string} sortBy
+ * @param {string[]} fields - allowed fields
+ * @returns {SortOption[] | null} null when a field is not allowed or the query is malformed
+ */
+export const parseSortBy = <Field extends string>(
+    sortBy: string,
+    fields: readonly Field[]
+): SortOption<Field>[] | null => {
+    const sortOptions: SortOption<Field>[] = [];
+    for (const sortOption of sortBy.split(',')) {
+        const [field, order = 'asc', ...rest] = sortOption.trim().split(':');
+        if (!fields.includes(field as Field) || (order !== 'asc' && order !== 'desc') || rest.length) {
+            return null;
+        }
+        sortOptions.push({ field: field as Field, order });
+    }
+    return sortOptions;
+};
@@ -0,0 +1,82 @@
+import zlib from 'zlib';
+
+export interface TarEntry {
+    name: string;
+    data: string | Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Write a number as a NUL terminated octal field of a tar header
+ * @param {Buffer} header
+ * @param {number} value
+ * @param {number} offset
+ * @param {number} length - length of the field, NUL included
+ */
+const writeOctal = (header: Buffer, value: number, offset: number, length: number) => {
+    header.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+};
+
+/**
+ * Split a path into the name and prefix fields of a ustar header, names are at most 100 bytes
+ * @param {string} path
+ * @returns {{ name: string; prefix: string }}
+ */
+const splitPath = (path: string): { name: string; prefix: string } => {
+    if (Buffer.byteLength(path) <= 100) {
+        return { name: path, prefix: '' };
+    }
+    const separator = path.indexOf('/', path.length - 101);
+    if (separator <= 0 || Buffer.byteLength(path.slice(0, separator)) > 155) {
+        throw new Error(`Path too long for a tar archive: ${path}`);
+    }
+    return { name: path.slice(separator + 1), prefix: path.slice(0, separator) };
+};
+
+/**
+ * Build the ustar header of a regular file
+ * @param {string} path
+ * @param {number} size
+ * @param {Date} mtime
+ * @returns {Buffer}
+ */
+const createHeader = (path: string, size: number, mtime: Date): Buffer => {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    const { name, prefix } = splitPath(path);
+    header.write(name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, size, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.write('0', 156, 1, 'ascii');
+    header.write('ustar\u000000', 257, 8, 'ascii');
+    header.write(prefix, 345, 155);
+    // The checksum is computed with its own field filled with spaces
+    header.fill(' ', 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+    return header;
+};
+
+/**
+ * Create a gzipped tar archive of files held in memory
+ * @param {TarEntry[]} entries
+ * @returns {Buffer}
+ */
+export const createTarGz = (entries: TarEntry[]): Buffer => {
+    const mtime = new Date();
+    const blocks: Buffer[] = [];
+    for (const entry of entries) {
+        const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data);
+        blocks.push(createHeader(entry.name, data.length, mtime), data);
+        const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+        if (padding) {
+            blocks.push(Buffer.alloc(padding));
+        }
+    }
+    // Two empty blocks end the archive
+    blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+    return zlib.gzipSync(Buffer.concat(blocks));
+};
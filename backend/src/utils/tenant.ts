@@ -0,0 +1,29 @@
+import { OrganizationRole } from '../generated/prisma/index.js';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface Tenant {
+    organizationId: string;
+    // null for users acting on an organization they are not a member of, like admins
+    organizationRole: OrganizationRole | null;
+}
+
+const tenantStorage = new AsyncLocalStorage<Tenant>();
+
+/**
+ * Get the tenant of the current request
+ * @returns {Tenant | undefined}
+ */
+export const getTenant = (): Tenant | undefined => tenantStorage.getStore();
+
+/**
+ * Run a function with a tenant, the queries it makes are scoped to the tenant organization
+ * @param {Tenant} tenant
+ * @param {Function} fn
+ */
+export const runWithTenant = <T>(tenant: Tenant, fn: () => T): T => tenantStorage.run(tenant, fn);
+
+/**
+ * Run a function without tenant scoping, e.g. for checks that must see every organization
+ * @param {Function} fn
+ */
+export const runWithoutTenant = <T>(fn: () => T): T => tenantStorage.exit(fn);
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+
+// RFC 6238 defaults, supported by every authenticator app
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+/**
+ * Generate a random base32 encoded TOTP secret
+ * @returns {string}
+ */
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Get the time step of a moment
+ * @param {number} [timestamp] - milliseconds since epoch
+ * @returns {number}
+ */
+export const getTotpStep = (timestamp = Date.now()): number => Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Generate the TOTP code of a time step (RFC 4226 HOTP with the step as counter)
+ * @param {string} secret - base32 encoded secret
+ * @param {number} step
+ * @returns {string}
+ */
+export const generateTotp = (secret: string, step: number): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Verify a TOTP code, allowing for clock drift
+ * @param {string} secret - base32 encoded secret
+ * @param {string} code
+ * @param {number} [window] - number of steps accepted before and after the current one
+ * @returns {number | null} the matching time step, or null when the code is invalid
+ */
+export const verifyTotp = (secret: string, code: string, window = 1): number | null => {
+    const currentStep = getTotpStep();
+    const codeBuffer = Buffer.from(code);
+    for (let step = currentStep - window; step <= currentStep + window; step++) {
+        const expected = Buffer.from(generateTotp(secret, step));
+        if (expected.length === codeBuffer.length && crypto.timingSafeEqual(expected, codeBuffer)) {
+            return step;
+        }
+    }
+    return null;
+};
+
+/**
+ * Get the otpauth:// provisioning URI, rendered as a QR code by the client
+ * @param {Object} params
+ * @returns {string}
+ */
+export const getTotpUri = (params: { secret: string; accountName: string; issuer: string }): string => {
+    const { secret, accountName, issuer } = params;
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const query = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS)
+    });
+    // Authenticator apps expect spaces as %20 rather than +
+    return `otpauth://totp/${label}?${query.toString().replace(/\+/g, '%20')}`;
+};
@@ -1,4 +1,5 @@
 import { User } from '../generated/prisma/index.js';
+import { Tenant } from './tenant.ts';
 import { Request } from 'express';
 
 export interface CustomParamsDictionary {
@@ -12,4 +13,10 @@ export interface RequestWithAdditionalProperties
 
 export interface AuthenticatedRequest extends RequestWithAdditionalProperties {
     user: User;
+    // Organization the request is scoped to, see auth()
+    tenant?: Tenant;
+    // Set when authenticated with an API key
+    apiKey?: { id: number; scopes: string[] };
+    // Set when an admin impersonates the user
+    actor?: { id: string };
 }
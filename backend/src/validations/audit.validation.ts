@@ -0,0 +1,17 @@
+import Joi from 'joi';
+
+const getAuditEvents = {
+    query: Joi.object().keys({
+        type: Joi.string(),
+        actorId: Joi.string().uuid(),
+        targetId: Joi.string().uuid(),
+        from: Joi.date().iso(),
+        to: Joi.date().iso().min(Joi.ref('from')),
+        limit: Joi.number().integer().min(1).max(100),
+        page: Joi.number().integer().min(1)
+    })
+};
+
+export default {
+    getAuditEvents
+};
@@ -1,17 +1,77 @@
+import { OAuthProviderName } from '../oauth/types.ts';
+import { MagicLinkType } from '../types/magicLink.ts';
 import { password } from './custom.validation.ts';
 import Joi from 'joi';
 
 const register = {
     body: Joi.object().keys({
         email: Joi.string().required().email(),
-        password: Joi.string().required().custom(password)
+        password: Joi.string().required().custom(password),
+        deviceName: Joi.string().max(100)
     })
 };
 
 const login = {
     body: Joi.object().keys({
         email: Joi.string().required(),
-        password: Joi.string().required()
+        password: Joi.string().required(),
+        deviceName: Joi.string().max(100)
+    })
+};
+
+const loginMfa = {
+    body: Joi.object().keys({
+        mfaToken: Joi.string().required(),
+        code: Joi.string().required(),
+        deviceName: Joi.string().max(100)
+    })
+};
+
+const sendMagicLink = {
+    body: Joi.object().keys({
+        email: Joi.string().email().required(),
+        type: Joi.string()
+            .valid(...Object.values(MagicLinkType))
+            .default(MagicLinkType.LINK)
+    })
+};
+
+const verifyMagicLink = {
+    body: Joi.object()
+        .keys({
+            token: Joi.string(),
+            email: Joi.string().email(),
+            code: Joi.string().length(6).pattern(/^\d+$/),
+            deviceName: Joi.string().max(100)
+        })
+        .xor('token', 'code')
+        .and('email', 'code')
+};
+
+const getOAuthAuthorizationUrl = {
+    params: Joi.object().keys({
+        provider: Joi.string()
+            .required()
+            .valid(...Object.values(OAuthProviderName))
+    }),
+    query: Joi.object().keys({
+        redirectUri: Joi.string().required(),
+        codeChallenge: Joi.string().required(),
+        state: Joi.string()
+    })
+};
+
+const loginOAuth = {
+    params: Joi.object().keys({
+        provider: Joi.string()
+            .required()
+            .valid(...Object.values(OAuthProviderName))
+    }),
+    body: Joi.object().keys({
+        code: Joi.string().required(),
+        codeVerifier: Joi.string().required(),
+        redirectUri: Joi.string().required(),
+        deviceName: Joi.string().max(100)
     })
 };
 
@@ -23,7 +83,15 @@ const logout = {
 
 const refreshTokens = {
     body: Joi.object().keys({
-        refreshToken: Joi.string().required()
+        refreshToken: Joi.string().required(),
+        // Switch the organization of the session, null leaves it
+        organizationId: Joi.string().allow(null)
+    })
+};
+
+const impersonateUser = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
     })
 };
 
@@ -48,12 +116,53 @@ const verifyEmail = {
     })
 };
 
+const verifyEmailChange = {
+    query: Joi.object().keys({
+        token: Joi.string().required()
+    })
+};
+
+const revokeSession = {
+    params: Joi.object().keys({
+        sessionId: Joi.number().integer().required()
+    })
+};
+
+const revokeOtherSessions = {
+    body: Joi.object().keys({
+        refreshToken: Joi.string().required()
+    })
+};
+
+const enableTwoFactor = {
+    body: Joi.object().keys({
+        code: Joi.string().required()
+    })
+};
+
+const disableTwoFactor = {
+    body: Joi.object().keys({
+        code: Joi.string().required()
+    })
+};
+
 export default {
     register,
     login,
+    loginMfa,
+    sendMagicLink,
+    verifyMagicLink,
+    getOAuthAuthorizationUrl,
+    loginOAuth,
     logout,
     refreshTokens,
+    impersonateUser,
     forgotPassword,
     resetPassword,
-    verifyEmail
+    verifyEmail,
+    verifyEmailChange,
+    revokeSession,
+    revokeOtherSessions,
+    enableTwoFactor,
+    disableTwoFactor
 };
@@ -1,11 +1,26 @@
+import { getPasswordPolicyViolation } from '../utils/passwordPolicy.ts';
+import { parseSortBy } from '../utils/sortBy.ts';
 import Joi from 'joi';
 
 export const password: Joi.CustomValidator<string> = (value, helpers) => {
-    if (value.length < 8) {
-        return helpers.error('password must be at least 8 characters');
-    }
-    if (!value.match(/\d/) || !value.match(/[a-zA-Z]/)) {
-        return helpers.error('password must contain at least 1 letter and 1 number');
+    const violation = getPasswordPolicyViolation(value);
+    if (violation) {
+        return helpers.message({ custom: violation });
     }
     return value;
 };
+
+/**
+ * Validate a sortBy query against the allowed fields, see parseSortBy
+ * @param {string[]} fields
+ */
+export const sortBy =
+    (fields: readonly string[]): Joi.CustomValidator<string> =>
+    (value, helpers) => {
+        if (!parseSortBy(value, fields)) {
+            return helpers.message({
+                custom: `{{#label}} must be a list of field:asc or field:desc, with fields among ${fields.join(', ')}`
+            });
+        }
+        return value;
+    };
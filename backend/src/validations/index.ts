@@ -1,2 +1,6 @@
 export { default as authValidation } from './auth.validation.ts';
 export { default as userValidation } from './user.validation.ts';
+export { default as roleValidation } from './role.validation.ts';
+export { default as organizationValidation } from './organization.validation.ts';
+export { default as auditValidation } from './audit.validation.ts';
+export { default as oauthServerValidation } from './oauthServer.validation.ts';
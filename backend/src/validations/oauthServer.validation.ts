@@ -0,0 +1,75 @@
+import { OAuthGrantType, TokenEndpointAuthMethod } from '../types/oauthServer.ts';
+import Joi from 'joi';
+
+// Parameters the user approves on the app, as received by the authorization endpoint
+const authorizationRequest = {
+    client_id: Joi.string().required(),
+    redirect_uri: Joi.string().required(),
+    code_challenge: Joi.string().required(),
+    code_challenge_method: Joi.string().required(),
+    state: Joi.string(),
+    scope: Joi.string(),
+    resource: Joi.string()
+};
+
+// Unknown client metadata and parameters are ignored, as required by RFC 7591 and RFC 6749
+const registerClient = {
+    body: Joi.object()
+        .keys({
+            redirect_uris: Joi.array().items(Joi.string()).min(1).required(),
+            client_name: Joi.string().max(100),
+            token_endpoint_auth_method: Joi.string()
+                .valid(...Object.values(TokenEndpointAuthMethod))
+                .default(TokenEndpointAuthMethod.CLIENT_SECRET_BASIC),
+            grant_types: Joi.array().items(Joi.string().valid(...Object.values(OAuthGrantType))),
+            response_types: Joi.array().items(Joi.string().valid('code'))
+        })
+        .unknown()
+};
+
+const authorizeRedirect = {
+    query: Joi.object()
+        .keys({
+            ...authorizationRequest,
+            response_type: Joi.string().required(),
+            // Checked by the service, invalid values are reported on the redirect URI
+            code_challenge: Joi.string().allow(''),
+            code_challenge_method: Joi.string().allow('')
+        })
+        .unknown()
+};
+
+const authorize = {
+    body: Joi.object().keys(authorizationRequest)
+};
+
+const token = {
+    body: Joi.object()
+        .keys({
+            grant_type: Joi.string()
+                .required()
+                .valid(...Object.values(OAuthGrantType)),
+            code: Joi.string().when('grant_type', { is: OAuthGrantType.AUTHORIZATION_CODE, then: Joi.required() }),
+            redirect_uri: Joi.string().when('grant_type', {
+                is: OAuthGrantType.AUTHORIZATION_CODE,
+                then: Joi.required()
+            }),
+            code_verifier: Joi.string().when('grant_type', {
+                is: OAuthGrantType.AUTHORIZATION_CODE,
+                then: Joi.required()
+            }),
+            refresh_token: Joi.string().when('grant_type', { is: OAuthGrantType.REFRESH_TOKEN, then: Joi.required() }),
+            client_id: Joi.string(),
+            client_secret: Joi.string(),
+            resource: Joi.string(),
+            scope: Joi.string()
+        })
+        .unknown()
+};
+
+export default {
+    registerClient,
+    authorizeRedirect,
+    authorize,
+    token
+};
@@ -0,0 +1,78 @@
+import { OrganizationRole } from '../generated/prisma/index.js';
+import Joi from 'joi';
+
+const organizationRole = Joi.string().valid(...Object.values(OrganizationRole));
+
+const createOrganization = {
+    body: Joi.object().keys({
+        name: Joi.string().max(128).required()
+    })
+};
+
+const getOrganization = {
+    params: Joi.object().keys({
+        organizationId: Joi.string().uuid().required()
+    })
+};
+
+const updateOrganization = {
+    params: Joi.object().keys({
+        organizationId: Joi.string().uuid().required()
+    }),
+    body: Joi.object()
+        .keys({
+            name: Joi.string().max(128)
+        })
+        .min(1)
+};
+
+const member = {
+    params: Joi.object().keys({
+        organizationId: Joi.string().uuid().required(),
+        userId: Joi.string().uuid().required()
+    })
+};
+
+const updateMember = {
+    params: member.params,
+    body: Joi.object().keys({
+        role: organizationRole.required()
+    })
+};
+
+const createInvitation = {
+    params: Joi.object().keys({
+        organizationId: Joi.string().uuid().required()
+    }),
+    body: Joi.object().keys({
+        email: Joi.string().email().required(),
+        role: organizationRole.default(OrganizationRole.MEMBER)
+    })
+};
+
+const revokeInvitation = {
+    params: Joi.object().keys({
+        organizationId: Joi.string().uuid().required(),
+        invitationId: Joi.number().integer().required()
+    })
+};
+
+const acceptInvitation = {
+    body: Joi.object().keys({
+        token: Joi.string().required()
+    })
+};
+
+export default {
+    createOrganization,
+    getOrganization,
+    updateOrganization,
+    deleteOrganization: getOrganization,
+    getMembers: getOrganization,
+    updateMember,
+    removeMember: member,
+    createInvitation,
+    getInvitations: getOrganization,
+    revokeInvitation,
+    acceptInvitation
+};
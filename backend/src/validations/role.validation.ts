@@ -0,0 +1,62 @@
+import Joi from 'joi';
+
+const roleName = Joi.string()
+    .max(64)
+    .pattern(/^[\w-]+$/);
+
+const createRole = {
+    body: Joi.object().keys({
+        name: roleName.required(),
+        description: Joi.string(),
+        permissions: Joi.array().items(Joi.string()).unique()
+    })
+};
+
+const getRole = {
+    params: Joi.object().keys({
+        roleName: Joi.string().required()
+    })
+};
+
+const updateRole = {
+    params: Joi.object().keys({
+        roleName: Joi.string().required()
+    }),
+    body: Joi.object()
+        .keys({
+            description: Joi.string().allow(null)
+        })
+        .min(1)
+};
+
+const deleteRole = {
+    params: Joi.object().keys({
+        roleName: Joi.string().required()
+    })
+};
+
+const rolePermission = {
+    params: Joi.object().keys({
+        roleName: Joi.string().required(),
+        permission: Joi.string().required()
+    })
+};
+
+const assignRole = {
+    params: Joi.object().keys({
+        roleName: Joi.string().required()
+    }),
+    body: Joi.object().keys({
+        userId: Joi.string().required()
+    })
+};
+
+export default {
+    createRole,
+    getRole,
+    updateRole,
+    deleteRole,
+    attachPermission: rolePermission,
+    detachPermission: rolePermission,
+    assignRole
+};
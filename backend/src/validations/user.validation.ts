@@ -1,5 +1,5 @@
-import { Role } from '../generated/prisma/index.js';
-import { password } from './custom.validation.ts';
+import { USER_SORT_FIELDS } from '../types/user.ts';
+import { password, sortBy } from './custom.validation.ts';
 import Joi from 'joi';
 
 const createUser = {
@@ -7,29 +7,37 @@ const createUser = {
         email: Joi.string().required().email(),
         password: Joi.string().required().custom(password),
         name: Joi.string().required(),
-        role: Joi.string().required().valid(Role.USER, Role.ADMIN)
+        role: Joi.string().required()
     })
 };
 
 const getUsers = {
-    query: Joi.object().keys({
-        name: Joi.string(),
-        role: Joi.string(),
-        sortBy: Joi.string(),
-        limit: Joi.number().integer(),
-        page: Joi.number().integer()
-    })
+    query: Joi.object()
+        .keys({
+            search: Joi.string(),
+            name: Joi.string(),
+            email: Joi.string(),
+            role: Joi.string(),
+            isEmailVerified: Joi.boolean(),
+            createdFrom: Joi.date().iso(),
+            createdTo: Joi.date().iso().min(Joi.ref('createdFrom')),
+            sortBy: Joi.string().custom(sortBy(USER_SORT_FIELDS)),
+            limit: Joi.number().integer().min(1).max(100),
+            page: Joi.number().integer().min(1),
+            cursor: Joi.string()
+        })
+        .oxor('page', 'cursor')
 };
 
 const getUser = {
     params: Joi.object().keys({
-        userId: Joi.number().integer()
+        userId: Joi.string().uuid().required()
     })
 };
 
 const updateUser = {
     params: Joi.object().keys({
-        userId: Joi.number().integer()
+        userId: Joi.string().uuid().required()
     }),
     body: Joi.object()
         .keys({
@@ -42,7 +50,107 @@ const updateUser = {
 
 const deleteUser = {
     params: Joi.object().keys({
-        userId: Joi.number().integer()
+        userId: Joi.string().uuid().required()
+    })
+};
+
+// The email and the password of the current user change through their own flows
+const updateMe = {
+    body: Joi.object()
+        .keys({
+            name: Joi.string()
+        })
+        .min(1)
+};
+
+const deleteMe = {
+    body: Joi.object().keys({
+        password: Joi.string().required()
+    })
+};
+
+const changePassword = {
+    body: Joi.object().keys({
+        currentPassword: Joi.string().required(),
+        newPassword: Joi.string().required().custom(password),
+        // Session kept signed in, every session is revoked without it
+        refreshToken: Joi.string()
+    })
+};
+
+const changeEmail = {
+    body: Joi.object().keys({
+        email: Joi.string().required().email(),
+        password: Joi.string().required()
+    })
+};
+
+const getDataExport = {
+    params: Joi.object().keys({
+        exportId: Joi.string().uuid().required()
+    })
+};
+
+const restoreUser = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
+    })
+};
+
+const getUserSessions = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
+    })
+};
+
+const revokeUserSession = {
+    params: Joi.object().keys({
+        userId: Joi.string().required(),
+        sessionId: Joi.number().integer().required()
+    })
+};
+
+const revokeUserSessions = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
+    })
+};
+
+const createServiceAccount = {
+    body: Joi.object().keys({
+        name: Joi.string().required(),
+        role: Joi.string()
+    })
+};
+
+const getApiKeys = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
+    })
+};
+
+const createApiKey = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
+    }),
+    body: Joi.object().keys({
+        name: Joi.string().max(128).required(),
+        scopes: Joi.array().items(Joi.string()).unique(),
+        // null for a key that never expires
+        expires: Joi.date().greater('now').allow(null)
+    })
+};
+
+const apiKey = {
+    params: Joi.object().keys({
+        userId: Joi.string().required(),
+        apiKeyId: Joi.number().integer().required()
+    })
+};
+
+const unlockUser = {
+    params: Joi.object().keys({
+        userId: Joi.string().required()
     })
 };
 
@@ -51,5 +159,20 @@ export default {
     getUsers,
     getUser,
     updateUser,
-    deleteUser
+    deleteUser,
+    updateMe,
+    deleteMe,
+    changePassword,
+    changeEmail,
+    getDataExport,
+    restoreUser,
+    getUserSessions,
+    revokeUserSession,
+    revokeUserSessions,
+    createServiceAccount,
+    getApiKeys,
+    createApiKey,
+    rotateApiKey: apiKey,
+    revokeApiKey: apiKey,
+    unlockUser
 };